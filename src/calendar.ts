@@ -0,0 +1,33 @@
+/**
+ * Adds whole calendar months to a date in local time. The day of the month is
+ * clamped to the target month, so January 31 plus one month is the last day
+ * of February.
+ */
+export const addCalendarMonths = (date: Date, months: number) => {
+  const result = new Date(date.getTime());
+  const day = result.getDate();
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+  const daysInMonth = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(day, daysInMonth));
+  return result;
+};
+
+/**
+ * Counts the calendar months from `start` to `end`: whole months as counted
+ * on a calendar, plus the elapsed fraction of the following month. Negative
+ * when `end` is before `start`.
+ */
+export const calendarMonthsBetween = (start: Date, end: Date) => {
+  const direction = end.getTime() >= start.getTime() ? 1 : -1;
+  let whole = (end.getFullYear() - start.getFullYear()) * 12 + end.getMonth() - start.getMonth();
+  let anchor = addCalendarMonths(start, whole);
+  // Step back while the anchor overshoots, e.g. January 15 to March 1 is one whole month.
+  while (direction * (anchor.getTime() - end.getTime()) > 0) {
+    whole -= direction;
+    anchor = addCalendarMonths(start, whole);
+  }
+  const next = addCalendarMonths(start, whole + direction);
+  const fraction = (end.getTime() - anchor.getTime()) / (next.getTime() - anchor.getTime());
+  return whole + direction * fraction;
+};
@@ -0,0 +1,380 @@
+import { type ParseArgsConfig, parseArgs } from 'node:util';
+
+import { parseExactDecimal } from './exactDecimal.js';
+import * as helpers from './helpers.js';
+import {
+  type GroupingStyle,
+  type HumanizeInput,
+  type HumanizeUnitOptions,
+  humanizeUnit,
+  type OutputStyle,
+  type ParseUnitResult,
+  parseUnit,
+  type RoundingMode,
+  type SignDisplay,
+} from './humanizeUnit.js';
+import type { UnitDisplay } from './unitNames.js';
+import type { UnitArray } from './units.js';
+import * as unitTables from './units.js';
+
+/**
+ * Exit codes of the command line tool.
+ *
+ * - `0`: every selected field was converted.
+ * - `1`: a selected field could not be converted (see `--invalid`).
+ * - `2`: the arguments are invalid; nothing was converted.
+ */
+export const CLI_EXIT_CODES = { success: 0, invalidInput: 1, usage: 2 } as const;
+
+/**
+ * Input and output streams of {@link runCli}, injected so the tool can be
+ * tested without a process.
+ */
+export type CliIO = {
+  /** Returns the input lines; only called when no numbers are given as arguments. */
+  readInput: () => AsyncIterable<string> | Iterable<string>;
+  /** Writes one line of output. */
+  writeOutput: (line: string) => void;
+  /** Writes one line of diagnostics. */
+  writeError: (line: string) => void;
+};
+
+/**
+ * Handling of selected fields that cannot be converted.
+ *
+ * - `fail`: leave the field untouched, report it and exit with `1` at the end.
+ * - `abort`: report it and stop immediately with exit code `1`.
+ * - `warn`: leave the field untouched and report it, but exit with `0`.
+ * - `ignore`: leave the field untouched silently.
+ */
+type InvalidMode = 'fail' | 'abort' | 'warn' | 'ignore';
+
+const NAME = 'humanize-units';
+
+const USAGE = `Usage: ${NAME} [options] [numbers...]
+
+Formats numbers from the arguments, or from each line of standard input.
+Use -- before negative numbers.
+
+Input options:
+  --helper <name>        Preset such as bytes, bytes-binary, time or count
+  --field <list>         Fields to convert: 1, 2,4 or 3-5 (default: 1)
+  -d, --delimiter <text> Field delimiter (default: runs of whitespace)
+  --header <n>           Copy the first n lines unchanged (default: 0)
+  --from                 Parse humanized values back to numbers ("1.5G" -> 1500000000)
+  --invalid <mode>       fail, abort, warn or ignore (default: fail)
+  -h, --help             Show this help
+
+Formatting options (see HumanizeUnitOptions):
+  --units <table>        Unit table such as si, binary, time or short-scale
+  --min-unit <symbol>    --max-unit <symbol>      --exclude-units <list>
+  --postfix <text>       --postfix-name <name>
+  --significant-digits <n>        --minimum-significant-digits <n>
+  --fraction-digits <n>           --rounding-mode <mode>
+  --locale <tag>         --use-grouping           --grouping-style <style>
+  --sign-display <mode>  --unit-separator <text>  --unit-display <display>
+  --output-style <style> --si-spacing             --empty-value <text>
+
+Exit codes: 0 success, 1 invalid input, 2 invalid arguments.`;
+
+const CLI_OPTIONS = {
+  helper: { type: 'string' },
+  field: { type: 'string' },
+  delimiter: { type: 'string', short: 'd' },
+  header: { type: 'string' },
+  from: { type: 'boolean' },
+  invalid: { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+  units: { type: 'string' },
+  'min-unit': { type: 'string' },
+  'max-unit': { type: 'string' },
+  'exclude-units': { type: 'string' },
+  postfix: { type: 'string' },
+  'postfix-name': { type: 'string' },
+  'significant-digits': { type: 'string' },
+  'minimum-significant-digits': { type: 'string' },
+  'fraction-digits': { type: 'string' },
+  'rounding-mode': { type: 'string' },
+  locale: { type: 'string' },
+  'use-grouping': { type: 'boolean' },
+  'grouping-style': { type: 'string' },
+  'sign-display': { type: 'string' },
+  'unit-separator': { type: 'string' },
+  'unit-display': { type: 'string' },
+  'output-style': { type: 'string' },
+  'si-spacing': { type: 'boolean' },
+  'empty-value': { type: 'string' },
+} as const satisfies ParseArgsConfig['options'];
+
+type CliValues = ReturnType<typeof parseArgs<{ options: typeof CLI_OPTIONS }>>['values'];
+
+/**
+ * Invalid command line arguments, reported with exit code `2`.
+ */
+class UsageError extends Error {}
+
+const ACRONYM_BOUNDARY = /([A-Z]+)([A-Z][a-z])/g;
+const WORD_BOUNDARY = /([a-z\d])([A-Z])/g;
+const WHITESPACE_RUN = /(\s+)/;
+const FIELD_RANGE = /^(\d+)(?:-(\d*))?$/;
+const NON_NEGATIVE_INTEGER = /^\d+$/;
+
+/**
+ * Converts an export name to its command line spelling (`SIExtended` →
+ * `si-extended`, `BytesBinary` → `bytes-binary`).
+ */
+const toKebabCase = (name: string) =>
+  name.replace(ACRONYM_BOUNDARY, '$1-$2').replace(WORD_BOUNDARY, '$1-$2').toLowerCase();
+
+type Helper = (value: HumanizeInput, options?: HumanizeUnitOptions) => string;
+
+/**
+ * The `humanize*` exports of the helpers module, each required to accept
+ * decimal text: fields are passed through as-is so long integers keep every
+ * digit, and a helper taking only `number` would read them as non-finite.
+ */
+type HelperModule = {
+  [Name in keyof typeof helpers as Name extends `${string}Range`
+    ? never
+    : Name extends `humanize${string}`
+      ? Name
+      : never]: (value: string) => string;
+};
+
+type Parser = (text: string, options?: HumanizeUnitOptions) => ParseUnitResult;
+
+/**
+ * Collects the exports of a module whose names start with `prefix`, keyed by
+ * the rest of the name in kebab case.
+ */
+const collectExports = <T>(module: Record<string, unknown>, prefix: string, accept: (value: unknown) => boolean) =>
+  new Map(
+    Object.entries(module)
+      .filter(([name, value]) => name.startsWith(prefix) && !name.endsWith('Range') && accept(value))
+      .map(([name, value]) => [toKebabCase(name.slice(prefix.length)), value as T]),
+  );
+
+const isFunction = (value: unknown) => typeof value === 'function';
+const HELPERS = collectExports<Helper>(helpers satisfies HelperModule, 'humanize', isFunction);
+const PARSERS = collectExports<Parser>(helpers, 'parse', isFunction);
+const UNIT_TABLES = collectExports<UnitArray>(unitTables, '', Array.isArray);
+
+/**
+ * Returns `value` when it is one of `choices`.
+ *
+ * @throws {UsageError} When `value` is not one of `choices`.
+ */
+const readChoice = <T extends string>(flag: string, value: string | undefined, choices: readonly T[]) => {
+  if (value === undefined || (choices as readonly string[]).includes(value)) {
+    return value as T | undefined;
+  }
+  throw new UsageError(`--${flag} must be one of ${choices.join(', ')}, got "${value}".`);
+};
+
+/**
+ * Parses a non-negative integer flag.
+ *
+ * @throws {UsageError} When `value` is not a non-negative integer.
+ */
+const readInteger = (flag: string, value: string | undefined) => {
+  if (value === undefined) {
+    return;
+  }
+  if (!NON_NEGATIVE_INTEGER.test(value)) {
+    throw new UsageError(`--${flag} must be a non-negative integer, got "${value}".`);
+  }
+  return Number(value);
+};
+
+/**
+ * Parses a field list such as `2`, `1,3` or `2-4` into a predicate over
+ * 1-based field numbers. An open range (`3-`) extends to the last field.
+ *
+ * @throws {UsageError} When the list is malformed.
+ */
+const readFields = (spec: string) => {
+  const ranges = spec.split(',').map((item) => {
+    const match = FIELD_RANGE.exec(item.trim());
+    const start = Number(match?.[1]);
+    const end = match?.[2] === undefined ? start : match[2] === '' ? Number.POSITIVE_INFINITY : Number(match[2]);
+    if (!match || start < 1 || end < start) {
+      throw new UsageError(`--field must list field numbers such as 2, 1,3 or 2-4, got "${spec}".`);
+    }
+    return { start, end };
+  });
+  return (field: number) => ranges.some(({ start, end }) => field >= start && field <= end);
+};
+
+/**
+ * Builds the formatting options from the flags.
+ *
+ * @throws {UsageError} When a flag has an invalid value.
+ */
+const readUnitOptions = (values: CliValues): HumanizeUnitOptions => {
+  let units: UnitArray | undefined;
+  if (values.units !== undefined) {
+    units = UNIT_TABLES.get(values.units);
+    if (!units) {
+      throw new UsageError(`Unknown unit table "${values.units}". Use one of ${[...UNIT_TABLES.keys()].join(', ')}.`);
+    }
+  }
+
+  const options: HumanizeUnitOptions = {
+    units,
+    minUnit: values['min-unit'],
+    maxUnit: values['max-unit'],
+    excludeUnits: values['exclude-units']?.split(','),
+    postfix: values.postfix,
+    postfixName: values['postfix-name'],
+    significantDigits: readInteger('significant-digits', values['significant-digits']),
+    minimumSignificantDigits: readInteger('minimum-significant-digits', values['minimum-significant-digits']),
+    fractionDigits: readInteger('fraction-digits', values['fraction-digits']),
+    roundingMode: readChoice<RoundingMode>('rounding-mode', values['rounding-mode'], [
+      'ceil',
+      'floor',
+      'trunc',
+      'halfExpand',
+      'halfEven',
+    ]),
+    locale: values.locale,
+    useGrouping: values['use-grouping'],
+    groupingStyle: readChoice<GroupingStyle>('grouping-style', values['grouping-style'], ['locale', 'indian']),
+    signDisplay: readChoice<SignDisplay>('sign-display', values['sign-display'], [
+      'auto',
+      'always',
+      'exceptZero',
+      'negative',
+    ]),
+    unitSeparator: values['unit-separator'],
+    unitDisplay: readChoice<UnitDisplay>('unit-display', values['unit-display'], ['narrow', 'short', 'long']),
+    outputStyle: readChoice<OutputStyle>('output-style', values['output-style'], ['ascii', 'unicode', 'html', 'latex']),
+    siSpacing: values['si-spacing'],
+    emptyValue: values['empty-value'],
+  };
+  // Drop unset flags so that defaults, including the helpers' presets, apply.
+  return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+};
+
+/**
+ * Builds the function converting one field, returning `undefined` for
+ * invalid input along with a reason.
+ *
+ * @throws {UsageError} When the helper is unknown or combined with unit flags.
+ */
+const createConverter = (values: CliValues) => {
+  const options = readUnitOptions(values);
+  const { helper: helperName } = values;
+
+  if (helperName !== undefined && (options.units || options.postfix !== undefined || options.postfixName)) {
+    throw new UsageError('--helper cannot be combined with --units, --postfix or --postfix-name.');
+  }
+
+  if (values.from) {
+    const parser: Parser = helperName === undefined ? parseUnit : (PARSERS.get(helperName) as Parser);
+    if (!parser) {
+      throw new UsageError(`No parser for helper "${helperName}". Use one of ${[...PARSERS.keys()].join(', ')}.`);
+    }
+    return (text: string) => {
+      const result = parser(text, options);
+      return result.ok ? { output: String(result.value) } : { error: result.error.message };
+    };
+  }
+
+  const helper: Helper = helperName === undefined ? humanizeUnit : (HELPERS.get(helperName) as Helper);
+  if (!helper) {
+    throw new UsageError(`Unknown helper "${helperName}". Use one of ${[...HELPERS.keys()].join(', ')}.`);
+  }
+  // Surface invalid options such as an unknown locale before reading input.
+  helper(0, options);
+  // Decimal text is passed through as-is so long integers keep every digit.
+  return (text: string) =>
+    parseExactDecimal(text) ? { output: helper(text.trim(), options) } : { error: `"${text}" is not a number.` };
+};
+
+/**
+ * Splits a line into tokens. Fields sit at the returned indices; the other
+ * tokens are the delimiters, kept so the line can be joined back unchanged.
+ */
+const splitLine = (line: string, delimiter: string | undefined) => {
+  if (delimiter !== undefined) {
+    const tokens = line.split(delimiter);
+    return { tokens, fieldIndices: tokens.map((_, index) => index), join: (parts: string[]) => parts.join(delimiter) };
+  }
+  const tokens = line.split(WHITESPACE_RUN);
+  // Fields are the even tokens; leading whitespace leaves an empty first token.
+  const first = tokens[0] === '' && tokens.length > 1 ? 2 : 0;
+  const fieldIndices: number[] = [];
+  for (let index = first; index < tokens.length; index += 2) {
+    fieldIndices.push(index);
+  }
+  return { tokens, fieldIndices, join: (parts: string[]) => parts.join('') };
+};
+
+/**
+ * Runs the `humanize-units` command line tool, modeled on `numfmt`: formats
+ * (or with `--from`, parses) selected fields of each input line and copies
+ * everything else unchanged.
+ *
+ * @param args Command line arguments without the executable and script.
+ * @param io Input and output streams.
+ * @returns Exit code, one of {@link CLI_EXIT_CODES}.
+ */
+export const runCli = async (args: string[], io: CliIO): Promise<number> => {
+  let values: CliValues;
+  let positionals: string[];
+  let convert: ReturnType<typeof createConverter>;
+  let isSelected: (field: number) => boolean;
+  let header: number;
+  let invalid: InvalidMode;
+  try {
+    ({ values, positionals } = parseArgs({ args, options: CLI_OPTIONS, allowPositionals: true, strict: true }));
+    if (values.help) {
+      io.writeOutput(USAGE);
+      return CLI_EXIT_CODES.success;
+    }
+    isSelected = readFields(values.field ?? '1');
+    header = readInteger('header', values.header) ?? 0;
+    invalid = readChoice<InvalidMode>('invalid', values.invalid, ['fail', 'abort', 'warn', 'ignore']) ?? 'fail';
+    if (values.delimiter === '') {
+      throw new UsageError('--delimiter must not be empty.');
+    }
+    convert = createConverter(values);
+  } catch (error) {
+    io.writeError(`${NAME}: ${error instanceof Error ? error.message : String(error)}`);
+    io.writeError(`Try "${NAME} --help" for more information.`);
+    return CLI_EXIT_CODES.usage;
+  }
+
+  let exitCode: number = CLI_EXIT_CODES.success;
+  let lineNumber = 0;
+  for await (const line of positionals.length > 0 ? positionals : io.readInput()) {
+    lineNumber++;
+    if (lineNumber <= header) {
+      io.writeOutput(line);
+      continue;
+    }
+
+    const { tokens, fieldIndices, join } = splitLine(line, values.delimiter);
+    for (const [position, tokenIndex] of fieldIndices.entries()) {
+      if (!isSelected(position + 1)) {
+        continue;
+      }
+      const result = convert(tokens[tokenIndex] as string);
+      if (result.output !== undefined) {
+        tokens[tokenIndex] = result.output;
+        continue;
+      }
+      if (invalid !== 'ignore') {
+        io.writeError(`${NAME}: line ${lineNumber}, field ${position + 1}: ${result.error}`);
+      }
+      if (invalid === 'abort') {
+        return CLI_EXIT_CODES.invalidInput;
+      }
+      if (invalid === 'fail') {
+        exitCode = CLI_EXIT_CODES.invalidInput;
+      }
+    }
+    io.writeOutput(join(tokens));
+  }
+  return exitCode;
+};
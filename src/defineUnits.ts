@@ -0,0 +1,160 @@
+import type { Unit, UnitArray, UnitNames } from './units.js';
+
+declare const definedUnitsBrand: unique symbol;
+
+/**
+ * Frozen unit table returned by {@link defineUnits}: sorted from largest to
+ * smallest, with positive finite thresholds and unique symbols.
+ */
+export type DefinedUnitArray = UnitArray & { readonly [definedUnitsBrand]: true };
+
+/**
+ * Names a unit in error messages, e.g. `"k" (1000)` or `"" (1)`.
+ */
+const describeUnit = (unit: Unit) => `"${unit.unit}" (${unit.value})`;
+
+/**
+ * Checks a single entry.
+ *
+ * @throws {Error} When the entry has no string symbol or a non-positive or
+ * non-finite threshold.
+ */
+const validateEntry = (unit: Unit, index: number) => {
+  if (typeof unit?.unit !== 'string') {
+    throw new Error(`Unit at index ${index} must have a string symbol.`);
+  }
+  if (typeof unit.value !== 'number' || !Number.isFinite(unit.value) || unit.value <= 0) {
+    throw new Error(`Unit ${describeUnit(unit)} must have a positive, finite threshold.`);
+  }
+};
+
+/**
+ * Whether two entries define the same unit and can be merged.
+ */
+const isSameEntry = (a: Unit, b: Unit) => a.unit === b.unit && a.value === b.value && a.name === b.name;
+
+/**
+ * Copies and freezes an entry so the table cannot change after validation.
+ */
+const freezeEntry = (unit: Unit): Unit =>
+  Object.freeze({
+    ...unit,
+    ...(unit.aliases && { aliases: Object.freeze([...unit.aliases]) as string[] }),
+    ...(unit.longNames && { longNames: Object.freeze({ ...unit.longNames }) }),
+  });
+
+/**
+ * Builds a unit table from entries in any order, such as tables loaded from
+ * configuration at runtime.
+ *
+ * Entries are sorted from largest to smallest and exact duplicates are
+ * dropped. The result and its entries are frozen.
+ *
+ * @param units Unit entries in any order.
+ * @returns Validated, frozen unit table.
+ * @throws {Error} When the table is empty, an entry has a non-positive or
+ * non-finite threshold, a symbol or alias is used by two units, or two units
+ * share a threshold.
+ */
+export const defineUnits = (units: Iterable<Unit>): DefinedUnitArray => {
+  const entries: Unit[] = [];
+  let index = 0;
+  for (const unit of units) {
+    validateEntry(unit, index++);
+    if (!entries.some((entry) => isSameEntry(entry, unit))) {
+      entries.push(unit);
+    }
+  }
+  if (entries.length === 0) {
+    throw new Error('A unit table requires at least one unit definition.');
+  }
+
+  const symbols = new Map<string, Unit>();
+  for (const unit of entries) {
+    for (const symbol of [unit.unit, ...(unit.aliases ?? [])]) {
+      const existing = symbols.get(symbol);
+      if (existing && existing !== unit) {
+        throw new Error(`Unit ${describeUnit(unit)} reuses the symbol "${symbol}" of ${describeUnit(existing)}.`);
+      }
+      symbols.set(symbol, unit);
+    }
+  }
+
+  const sorted = [...entries].sort((a, b) => b.value - a.value);
+  sorted.forEach((unit, position) => {
+    const previous = sorted[position - 1];
+    if (previous && previous.value === unit.value) {
+      throw new Error(`Units ${describeUnit(previous)} and ${describeUnit(unit)} share the same threshold.`);
+    }
+  });
+
+  return Object.freeze(sorted.map(freezeEntry)) as DefinedUnitArray;
+};
+
+/**
+ * Options for {@link definePrefixedUnits}.
+ */
+export type PrefixedUnitOptions = {
+  /**
+   * English long-form names of the base unit. Prefixed units get the prefix
+   * name prepended (`kilo` + `watt-hours`).
+   */
+  longNames?: UnitNames;
+};
+
+/**
+ * Builds a table by combining a prefix table with a base symbol, such as
+ * `definePrefixedUnits(SI, 'Wh')` for `Wh`, `kWh`, `MWh`…
+ *
+ * @param prefixes Prefix table such as `SI` or `Binary`.
+ * @param symbol Base unit symbol appended to every prefix.
+ * @param options Long-form names of the base unit.
+ * @returns Validated, frozen unit table.
+ * @throws {Error} When the combined table is invalid (see {@link defineUnits}).
+ */
+export const definePrefixedUnits = (
+  prefixes: UnitArray,
+  symbol: string,
+  { longNames }: PrefixedUnitOptions = {},
+): DefinedUnitArray =>
+  defineUnits(
+    prefixes.map((prefix): Unit => {
+      const unit: Unit = { value: prefix.value, unit: `${prefix.unit}${symbol}` };
+      if (prefix.aliases) {
+        unit.aliases = prefix.aliases.map((alias) => `${alias}${symbol}`);
+      }
+      if (longNames) {
+        const prefixName = prefix.unit ? (prefix.name ?? '') : '';
+        unit.longNames = Object.fromEntries(
+          Object.entries(longNames).map(([category, name]) => [category, `${prefixName}${name}`]),
+        ) as UnitNames;
+      }
+      return unit;
+    }),
+  );
+
+/**
+ * Entry of {@link definePowerUnits}: a symbol, or a symbol with names.
+ */
+export type PowerUnitEntry = string | Omit<Unit, 'value'>;
+
+/**
+ * Builds a table whose thresholds are consecutive powers of `base`, such as
+ * `definePowerUnits(1000, ['', 'K', 'M', 'B', 'T'])`.
+ *
+ * @param base Ratio between consecutive units; must be greater than 1.
+ * @param entries Units for `base ** 0`, `base ** 1`, … in ascending order.
+ * @returns Validated, frozen unit table.
+ * @throws {Error} When `base` is not a finite number greater than 1 or the
+ * table is invalid (see {@link defineUnits}).
+ */
+export const definePowerUnits = (base: number, entries: readonly PowerUnitEntry[]): DefinedUnitArray => {
+  if (!Number.isFinite(base) || base <= 1) {
+    throw new Error(`The power base must be a finite number greater than 1, got ${base}.`);
+  }
+  return defineUnits(
+    entries.map(
+      (entry, power): Unit => ({ ...(typeof entry === 'string' ? { unit: entry } : entry), value: base ** power }),
+    ),
+  );
+};
@@ -0,0 +1,81 @@
+/**
+ * Exact decimal `coefficient × 10^exponent`, used to scale `bigint` and
+ * decimal-string input without going through a lossy `number`.
+ */
+export type ExactDecimal = { coefficient: bigint; exponent: number };
+
+const DECIMAL_PATTERN = /^\s*([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?\s*$/i;
+
+/**
+ * Significant digits kept when dividing, a few more than a `number` holds.
+ */
+const QUOTIENT_DIGITS = 21;
+
+/**
+ * Parses a decimal string such as `-12.5`, `1e21` or `18446744073709551616`.
+ *
+ * @returns The exact value, or `undefined` when `text` is not a decimal number.
+ */
+export const parseExactDecimal = (text: string): ExactDecimal | undefined => {
+  const match = DECIMAL_PATTERN.exec(text);
+  if (!match) {
+    return;
+  }
+  const [, sign = '', integer = '', fraction = '', exponent = '0'] = match;
+  if (!integer && !fraction) {
+    return;
+  }
+  const coefficient = BigInt(`${integer}${fraction}` || '0');
+  return { coefficient: sign === '-' ? -coefficient : coefficient, exponent: Number(exponent) - fraction.length };
+};
+
+/**
+ * Whether a positive integer is a power of two (e.g. `1024 ** 6`).
+ */
+const isPowerOfTwo = (value: number) => Number.isInteger(Math.log2(value));
+
+const thresholdCache = new Map<number, ExactDecimal>();
+
+/**
+ * Converts a unit threshold to an exact decimal. Safe integers and powers of
+ * two are taken as-is; other values use their shortest decimal form, so
+ * `1e30` means exactly 10^30 and `0.001` exactly 1/1000.
+ */
+export const exactFromThreshold = (value: number): ExactDecimal => {
+  let exact = thresholdCache.get(value);
+  if (!exact) {
+    exact =
+      Number.isSafeInteger(value) || (Number.isInteger(value) && isPowerOfTwo(value))
+        ? { coefficient: BigInt(value), exponent: 0 }
+        : (parseExactDecimal(String(value)) as ExactDecimal);
+    thresholdCache.set(value, exact);
+  }
+  return exact;
+};
+
+const absolute = (value: bigint) => (value < 0n ? -value : value);
+
+/**
+ * Compares the magnitudes of two exact decimals.
+ *
+ * @returns A negative number, zero or a positive number like a sort comparator.
+ */
+export const compareExactMagnitude = (a: ExactDecimal, b: ExactDecimal) => {
+  const exponent = Math.min(a.exponent, b.exponent);
+  const left = absolute(a.coefficient) * 10n ** BigInt(a.exponent - exponent);
+  const right = absolute(b.coefficient) * 10n ** BigInt(b.exponent - exponent);
+  return left === right ? 0 : left < right ? -1 : 1;
+};
+
+/**
+ * Divides two exact decimals and returns the quotient as the nearest
+ * `number`, computing more digits than a `number` holds before rounding.
+ */
+export const divideExact = (a: ExactDecimal, b: ExactDecimal) => {
+  const numerator = absolute(a.coefficient);
+  const denominator = absolute(b.coefficient);
+  const shift = Math.max(0, QUOTIENT_DIGITS + denominator.toString().length - numerator.toString().length);
+  const quotient = (numerator * 10n ** BigInt(shift)) / denominator;
+  const negative = a.coefficient < 0n !== b.coefficient < 0n;
+  return Number(`${negative ? '-' : ''}${quotient}e${a.exponent - b.exponent - shift}`);
+};
@@ -1,130 +1,879 @@
-import { type HumanizeUnitOptions, humanizeUnit } from './humanizeUnit.js';
-import { Binary, SI, Time, type UnitArray } from './units.js';
+import { calendarMonthsBetween } from './calendar.js';
+import { parseExactDecimal } from './exactDecimal.js';
+import { type HumanizeCompoundOptions, humanizeCompound } from './humanizeCompound.js';
+import { type HumanizeRateOptions, humanizeRate } from './humanizeRate.js';
+import {
+  createHumanizer,
+  type HumanizeInput,
+  type Humanizer,
+  type HumanizeUnitOptions,
+  type ParseUnitOptions,
+  type ParseUnitResult,
+  parseUnit,
+} from './humanizeUnit.js';
+import { convertTemperature, type TemperatureScale, TemperatureScales } from './temperature.js';
+import { getUnitLocaleVersion } from './unitNames.js';
+import {
+  BasisPoints,
+  Binary,
+  CalendarTime,
+  Celsius,
+  type CountScale,
+  CustomaryLength,
+  CustomaryVelocity,
+  createSIPrefixes,
+  Fahrenheit,
+  getCountUnits,
+  ImperialMass,
+  ImperialVolume,
+  Indian,
+  Kelvin,
+  NauticalVelocity,
+  Percent,
+  Permille,
+  restrictUnits,
+  SI,
+  type SIPrefixOptions,
+  Time,
+  type UnitArray,
+  USMass,
+  USVolume,
+} from './units.js';
 
 /**
- * Signature shared by all helper functions generated by this module.
+ * Options accepted by helpers; the unit table and postfix are preconfigured.
  */
-type HumanizeHelper = (
-  value: number | null | undefined,
-  options?: Omit<HumanizeUnitOptions, 'units' | 'postfix'>,
-) => string;
+export type HumanizeHelperOptions = Omit<HumanizeUnitOptions, 'units' | 'postfix' | 'postfixName'>;
 
 /**
- * Factory that binds a unit table and postfix to `humanizeUnit`.
+ * Signature shared by all helper functions generated by this module. Accepts
+ * `bigint` and decimal strings like `humanizeUnit`.
+ */
+export type HumanizeHelper = (value: HumanizeInput, options?: HumanizeHelperOptions) => string;
+
+/**
+ * Signature shared by range helpers such as `humanizeBytesRange`.
+ */
+export type HumanizeRangeHelper = (start: HumanizeInput, end: HumanizeInput, options?: HumanizeHelperOptions) => string;
+
+/**
+ * Options accepted by adaptive rate helpers such as `humanizeAdaptiveByteRate`.
+ */
+export type RateHelperOptions = HumanizeHelperOptions & Pick<HumanizeRateOptions, 'timeUnits' | 'rateStyle'>;
+
+/**
+ * Signature shared by adaptive rate helpers. `bigint` and decimal strings are
+ * accepted but converted to `number`.
+ */
+export type RateHelper = (value: HumanizeInput, options?: RateHelperOptions) => string;
+
+/**
+ * Options accepted by helpers of physical quantities built on SI prefixes.
+ */
+export type SIHelperOptions = HumanizeHelperOptions & {
+  /** Selects the SI table (micro symbol, centi/deci/deca/hecto). Defaults to {@link SI}. */
+  prefixes?: SIPrefixOptions;
+};
+
+/**
+ * Signature shared by helpers of physical quantities built on SI prefixes.
+ */
+export type SIHelper = (value: HumanizeInput, options?: SIHelperOptions) => string;
+
+/**
+ * Options accepted by count helpers such as `humanizeCount`.
+ */
+export type CountHelperOptions = HumanizeHelperOptions & {
+  /**
+   * Numbering system of the magnitudes, or `auto` to pick the one readers of
+   * `locale` expect (see {@link getCountScale}). The Indian system also
+   * groups digits in the Indian style unless `groupingStyle` is set. With
+   * `unitDisplay: 'long'`, `si` becomes `auto`, since SI prefixes have no
+   * names for counts. Long names come from the unit locale pack, falling back
+   * to symbols.
+   */
+  scale?: CountScale | 'auto';
+};
+
+/**
+ * Signature shared by count helpers.
+ */
+export type CountHelper = (value: HumanizeInput, options?: CountHelperOptions) => string;
+
+/**
+ * Unit a ratio is written in: `percent` (`12.5%`), `permille` (`12.5‰`) or
+ * `basisPoint` (`25bp`).
+ */
+export type RatioUnit = 'percent' | 'permille' | 'basisPoint';
+
+/**
+ * Options accepted by `humanizeRatio`.
+ */
+export type RatioHelperOptions = HumanizeHelperOptions & {
+  /** Unit the ratio is written in. Defaults to `percent`. */
+  ratioUnit?: RatioUnit;
+};
+
+/**
+ * Measurement system used by helpers of quantities with customary units.
+ *
+ * - `metric`: SI prefixes on the SI unit (`1.8m`).
+ * - `us`: US customary units (`5.91ft`, `12.3lb`, `2.1gal`).
+ * - `imperial`: British imperial units (`12st 8lb`, imperial gallons).
+ */
+export type UnitSystem = 'metric' | 'imperial' | 'us';
+
+/**
+ * Options accepted by helpers of quantities with customary units.
+ */
+export type MeasurementHelperOptions = SIHelperOptions & {
+  /** Converts SI input to the units of another system. Defaults to `metric`. */
+  unitSystem?: UnitSystem;
+  /**
+   * Uses two customary units where that is common practice (`5ft 11in`,
+   * `12lb 4oz`): below ten feet, a hundred pounds or, for stones, a long ton.
+   * Larger values keep the single best unit. Only `locale`, `useGrouping`, `unitSeparator` and
+   * `emptyValue` apply to compound output. Defaults to `false`.
+   */
+  compound?: boolean;
+};
+
+/**
+ * Signature shared by helpers of quantities with customary units. `bigint`
+ * and decimal strings are compared with the thresholds exactly for metric
+ * output and converted to `number` for other systems.
+ */
+export type MeasurementHelper = (value: HumanizeInput, options?: MeasurementHelperOptions) => string;
+
+/**
+ * Options accepted by temperature helpers.
+ */
+export type TemperatureHelperOptions = HumanizeHelperOptions & {
+  /**
+   * Scale of the output. Defaults to the helper's input scale, to Celsius
+   * for `unitSystem: 'metric'` with Fahrenheit input, and to Fahrenheit for
+   * `us` and `imperial`.
+   */
+  scale?: TemperatureScale;
+  /** Selects the output scale by measurement system when `scale` is not set. */
+  unitSystem?: UnitSystem;
+  /**
+   * Treats the value as a temperature difference, converted without scale
+   * offsets (a rise of `10K` is `18°F`). Defaults to `false`.
+   */
+  difference?: boolean;
+};
+
+/**
+ * Signature shared by temperature helpers. `bigint` and decimal strings are
+ * accepted but converted to `number`, since scales differ by an offset.
+ */
+export type TemperatureHelper = (value: HumanizeInput, options?: TemperatureHelperOptions) => string;
+
+/**
+ * Options accepted by `humanizeTime`.
+ */
+export type TimeHelperOptions = HumanizeHelperOptions & {
+  /**
+   * Start of the duration. When set, years and months are counted on the
+   * calendar from this date (local time), so a duration from January 31 to
+   * February 29 is `1mo`. Shorter durations use weeks and smaller units.
+   * `minUnit`, `maxUnit` and `excludeUnits` may then name `mo`, and a
+   * `maxUnit` below a month keeps weeks and smaller units throughout.
+   */
+  start?: Date | number;
+};
+
+/**
+ * Signature of `humanizeTime`.
+ */
+export type TimeHelper = (value: HumanizeInput, options?: TimeHelperOptions) => string;
+
+/**
+ * Options accepted by parsers; the unit table and postfix are preconfigured.
+ */
+export type ParseHelperOptions = Omit<ParseUnitOptions, 'units' | 'postfix'>;
+
+/**
+ * Signature shared by all parser functions generated by this module.
+ */
+export type ParseHelper = (text: string | null | undefined, options?: ParseHelperOptions) => ParseUnitResult;
+
+/**
+ * Signature shared by parsers of physical quantities built on SI prefixes.
+ */
+export type SIParseHelper = (
+  text: string | null | undefined,
+  options?: ParseHelperOptions & Pick<SIHelperOptions, 'prefixes'>,
+) => ParseUnitResult;
+
+/**
+ * Converts `bigint` and decimal-string input to a `number` for helpers that
+ * convert or compound values and so cannot compare them exactly. Strings that
+ * are not decimal numbers become `NaN`, which formats as `emptyValue`.
+ */
+const toNumber = (value: HumanizeInput) => {
+  if (typeof value === 'bigint') {
+    return Number(value);
+  }
+  if (typeof value === 'string') {
+    return parseExactDecimal(value) ? Number(value) : Number.NaN;
+  }
+  return value;
+};
+
+/**
+ * Maximum number of distinct option sets a helper keeps humanizers for.
+ */
+const HELPER_CACHE_SIZE = 32;
+
+/**
+ * Returns a function that provides cached {@link Humanizer}s for a unit table
+ * and postfix.
+ *
+ * The humanizer for the default options is built on first use. Humanizers for
+ * other option sets are cached by their serialized options, so repeated calls
+ * with equal options reuse one `Intl.NumberFormat`. Humanizers capture the
+ * unit locale packs they were built with, so registering a pack clears the
+ * cache.
+ */
+const createHumanizerCache = (units: UnitArray, postfix: string, postfixName: string | undefined) => {
+  let defaultHumanizer: Humanizer | undefined;
+  const cache = new Map<string, Humanizer>();
+  let localeVersion = getUnitLocaleVersion();
+
+  return (options: HumanizeHelperOptions | undefined) => {
+    if (localeVersion !== getUnitLocaleVersion()) {
+      localeVersion = getUnitLocaleVersion();
+      defaultHumanizer = undefined;
+      cache.clear();
+    }
+    if (!options) {
+      defaultHumanizer ??= createHumanizer({ units, postfix, postfixName });
+      return defaultHumanizer;
+    }
+
+    const key = JSON.stringify(options);
+    let humanizer = cache.get(key);
+    if (!humanizer) {
+      if (cache.size >= HELPER_CACHE_SIZE) {
+        cache.clear();
+      }
+      humanizer = createHumanizer({ ...options, units, postfix, postfixName });
+      cache.set(key, humanizer);
+    }
+    return humanizer;
+  };
+};
+
+/**
+ * Factory that binds a unit table and postfix to a cached {@link Humanizer}.
  *
  * @param units Unit definitions applied by the generated helper.
  * @param postfix Postfix appended after the unit.
+ * @param postfixName Name of the postfix in unit locale packs.
  * @returns Specialized helper function.
  */
-const createHelper =
-  (units: UnitArray, postfix: string = ''): HumanizeHelper =>
+const createHelper = (units: UnitArray, postfix: string = '', postfixName?: string): HumanizeHelper => {
+  const humanizerFor = createHumanizerCache(units, postfix, postfixName);
+  return (value, options) => humanizerFor(options).format(value);
+};
+
+/**
+ * Factory that binds a unit table and postfix to a cached range formatter.
+ *
+ * @param units Unit definitions applied by the generated helper.
+ * @param postfix Postfix appended after the unit.
+ * @param postfixName Name of the postfix in unit locale packs.
+ * @returns Specialized range helper function.
+ */
+const createRangeHelper = (units: UnitArray, postfix: string = '', postfixName?: string): HumanizeRangeHelper => {
+  const humanizerFor = createHumanizerCache(units, postfix, postfixName);
+  return (start, end, options) => humanizerFor(options).formatRange(start, end);
+};
+
+/**
+ * Years and months measured in calendar months, for durations anchored to a
+ * start date.
+ */
+const CalendarMonths: UnitArray = [
+  { value: 12, unit: 'y', name: 'year' },
+  { value: 1, unit: 'mo', name: 'month' },
+];
+
+/**
+ * Factory for `humanizeTime`: durations in seconds with fixed units, or with
+ * calendar years and months when a `start` date is given. With `start`,
+ * `minUnit`, `maxUnit` and `excludeUnits` refer to the calendar table (`y`,
+ * `mo`, `w` … `fs`) and are split between the months and the shorter units.
+ *
+ * @returns Time helper function.
+ */
+const createTimeHelper = (): TimeHelper => {
+  const shorterUnits = CalendarTime.slice(2);
+  const fixed = createHelper(Time);
+  const months = createHelper(CalendarMonths);
+  const shorter = createHelper(shorterUnits);
+  const symbolIn = (units: UnitArray) => (symbol: string | undefined) =>
+    symbol !== undefined && units.some((unit) => unit.unit === symbol);
+  const inMonths = symbolIn(CalendarMonths);
+  const inShorter = symbolIn(shorterUnits);
+
+  return (value, options) => {
+    const { start, minUnit, maxUnit, excludeUnits = [], ...rest } = options ?? {};
+    if (start === undefined) {
+      return fixed(value, options);
+    }
+    const allowed = restrictUnits(CalendarTime, { minUnit, maxUnit, excludeUnits });
+    const useGrouping = rest.useGrouping ?? (maxUnit === undefined ? undefined : true);
+    const monthOptions = {
+      ...rest,
+      useGrouping,
+      minUnit: inMonths(minUnit) ? minUnit : undefined,
+      maxUnit: inMonths(maxUnit) ? maxUnit : undefined,
+      excludeUnits: excludeUnits.filter(inMonths),
+    };
+    const shorterOptions = {
+      ...rest,
+      useGrouping,
+      minUnit: inShorter(minUnit) ? minUnit : undefined,
+      maxUnit: inShorter(maxUnit) ? maxUnit : undefined,
+      excludeUnits: excludeUnits.filter(inShorter),
+    };
+
+    const seconds = toNumber(value);
+    if (seconds === null || seconds === undefined || !Number.isFinite(seconds)) {
+      return shorter(seconds, shorterOptions);
+    }
+    const startDate = new Date(start);
+    const elapsedMonths = calendarMonthsBetween(startDate, new Date(startDate.getTime() + seconds * 1_000));
+    const monthUnits = CalendarMonths.filter((unit) => allowed.some((allowedUnit) => allowedUnit.unit === unit.unit));
+    const smallestMonth = monthUnits.at(-1)?.value;
+    const useMonths =
+      smallestMonth !== undefined && (Math.abs(elapsedMonths) >= smallestMonth || allowed.length === monthUnits.length);
+    return useMonths ? months(elapsedMonths, monthOptions) : shorter(seconds, shorterOptions);
+  };
+};
+
+/**
+ * Factory that binds a quantity to {@link humanizeRate}.
+ *
+ * @param units Unit definitions of the quantity.
+ * @param postfix Quantity symbol placed before the time unit.
+ * @param postfixName Name of the quantity in unit locale packs.
+ * @returns Specialized rate helper function.
+ */
+const createRateHelper =
+  (units: UnitArray, postfix: string = '', postfixName?: string): RateHelper =>
   (value, options) =>
-    humanizeUnit(value, { ...options, units, postfix });
+    humanizeRate(toNumber(value), { ...options, units, postfix, postfixName });
 
-/** Formats counts using SI prefixes (k, M, G…). */
-export const humanizeCount = createHelper(SI);
+/**
+ * Factory for physical-quantity helpers whose SI table can be chosen per call
+ * through the `prefixes` option.
+ *
+ * @param postfix Postfix appended after the unit.
+ * @param postfixName Name of the postfix in unit locale packs.
+ * @returns Specialized helper function.
+ */
+const createSIHelper = (postfix: string, postfixName?: string): SIHelper => {
+  const helpers = new Map<UnitArray, HumanizeHelper>();
+  const helperFor = (units: UnitArray) => {
+    let helper = helpers.get(units);
+    if (!helper) {
+      helper = createHelper(units, postfix, postfixName);
+      helpers.set(units, helper);
+    }
+    return helper;
+  };
+
+  return (value, options) => {
+    if (!options?.prefixes) {
+      return helperFor(SI)(value, options);
+    }
+    const { prefixes, ...rest } = options;
+    return helperFor(createSIPrefixes(prefixes))(value, rest);
+  };
+};
+
+/**
+ * Factory for count helpers whose numbering system can be chosen per call
+ * through the `scale` option.
+ *
+ * @param defaultScale Numbering system used when `scale` is not set.
+ * @returns Specialized count helper function.
+ */
+const createCountHelper = (defaultScale: CountScale): CountHelper => {
+  const helpers = new Map<UnitArray, HumanizeHelper>();
+  const helperFor = (units: UnitArray) => {
+    let helper = helpers.get(units);
+    if (!helper) {
+      helper = createHelper(units);
+      helpers.set(units, helper);
+    }
+    return helper;
+  };
+
+  return (value, options) => {
+    const { scale = defaultScale, ...rest } = options ?? {};
+    // SI prefixes have no names for counts, so long display spells out the locale's numbering system.
+    const units = getCountUnits(scale === 'si' && rest.unitDisplay === 'long' ? 'auto' : scale, options?.locale);
+    const helper = helperFor(units);
+    if (units === Indian) {
+      return helper(value, { groupingStyle: 'indian', ...rest });
+    }
+    return helper(value, options && rest);
+  };
+};
+
+/**
+ * Unit tables of one customary system for a quantity.
+ */
+type CustomarySystem = {
+  /** Units for single-unit output, in the base unit produced by `convert`. */
+  units: UnitArray;
+  /** Units for compound output, used for values below `compoundBelow`. */
+  compoundUnits?: UnitArray;
+  /**
+   * Magnitude, in the base unit, from which compound output gives way to the
+   * single best unit, since `5278ft 10in` reads worse than `1mi`.
+   */
+  compoundBelow?: number;
+};
+
+/**
+ * Customary systems of a quantity and the conversion from the SI input.
+ */
+type CustomaryDefinition = Record<Exclude<UnitSystem, 'metric'>, CustomarySystem> & {
+  /** Converts the SI input to the base unit of the customary tables. Defaults to identity. */
+  convert?: (value: number) => number;
+};
+
+/**
+ * Factory for helpers that format SI input as metric or customary units
+ * through the `unitSystem` option.
+ *
+ * @param postfix Postfix appended after metric units.
+ * @param postfixName Name of the postfix in unit locale packs.
+ * @param customary Customary unit tables of the quantity.
+ * @returns Specialized helper function.
+ */
+const createMeasurementHelper = (
+  postfix: string,
+  postfixName: string | undefined,
+  customary: CustomaryDefinition,
+): MeasurementHelper => {
+  const metric = createSIHelper(postfix, postfixName);
+  const imperial = createHelper(customary.imperial.units);
+  const us = customary.us.units === customary.imperial.units ? imperial : createHelper(customary.us.units);
+
+  return (value, options) => {
+    const { unitSystem = 'metric', compound = false, prefixes, ...rest } = options ?? {};
+    if (unitSystem === 'metric') {
+      return metric(value, options && { ...rest, prefixes });
+    }
+
+    const { compoundUnits, compoundBelow = Number.POSITIVE_INFINITY } = customary[unitSystem];
+    const number = toNumber(value);
+    const converted =
+      number === null || number === undefined || !customary.convert ? number : customary.convert(number);
+    if (compound && compoundUnits && converted !== null && converted !== undefined) {
+      if (Math.abs(converted) < compoundBelow) {
+        const { locale, useGrouping, unitSeparator, emptyValue } = rest;
+        return humanizeCompound(converted, {
+          units: compoundUnits,
+          maxParts: 2,
+          locale,
+          useGrouping,
+          unitSeparator,
+          emptyValue,
+        });
+      }
+    }
+    return (unitSystem === 'us' ? us : imperial)(converted, rest);
+  };
+};
+
+/**
+ * Picks the output scale of a temperature helper.
+ */
+const resolveTemperatureScale = (
+  inputScale: TemperatureScale,
+  scale: TemperatureScale | undefined,
+  unitSystem: UnitSystem | undefined,
+): TemperatureScale => {
+  if (scale) {
+    return scale;
+  }
+  if (unitSystem === 'us' || unitSystem === 'imperial') {
+    return 'F';
+  }
+  if (unitSystem === 'metric' && (inputScale === 'F' || inputScale === 'R')) {
+    return 'C';
+  }
+  return inputScale;
+};
+
+/**
+ * Factory for temperature helpers. Values are converted between scales with
+ * {@link convertTemperature} and never receive SI prefixes.
+ *
+ * @param inputScale Scale of the values passed to the helper.
+ * @returns Specialized helper function.
+ */
+const createTemperatureHelper = (inputScale: TemperatureScale): TemperatureHelper => {
+  const helpers = new Map<TemperatureScale, HumanizeHelper>();
+
+  return (value, options) => {
+    const { scale, unitSystem, difference = false, ...rest } = options ?? {};
+    const outputScale = resolveTemperatureScale(inputScale, scale, unitSystem);
+    let helper = helpers.get(outputScale);
+    if (!helper) {
+      helper = createHelper(TemperatureScales[outputScale]);
+      helpers.set(outputScale, helper);
+    }
+    const number = toNumber(value);
+    const converted =
+      number === null || number === undefined
+        ? number
+        : convertTemperature(number, inputScale, outputScale, difference);
+    return helper(converted, options && rest);
+  };
+};
+
+/**
+ * Factory that binds a unit table and postfix to `parseUnit`.
+ *
+ * @param units Unit definitions recognised by the generated parser.
+ * @param postfix Postfix expected after the unit.
+ * @returns Specialized parser function.
+ */
+const createParser =
+  (units: UnitArray, postfix: string = ''): ParseHelper =>
+  (text, options) =>
+    parseUnit(text, { ...options, units, postfix });
+
+/**
+ * Factory for physical-quantity parsers that accept the same `prefixes`
+ * option as {@link createSIHelper}.
+ *
+ * @param postfix Postfix expected after the unit.
+ * @returns Specialized parser function.
+ */
+const createSIParser =
+  (postfix: string): SIParseHelper =>
+  (text, options) => {
+    const { prefixes, ...rest } = options ?? {};
+    return parseUnit(text, { ...rest, units: prefixes ? createSIPrefixes(prefixes) : SI, postfix });
+  };
+
+/** Two-unit length table for compound customary output (`5ft 11in`). */
+const FeetAndInches = CustomaryLength.slice(2);
+
+/** Ten feet in meters, the longest length written in feet and inches. */
+const TEN_FEET = 3.048;
+
+/** A hundred pounds in grams, the heaviest US mass written in pounds and ounces. */
+const HUNDRED_POUNDS = 45_359.237;
+
+/** A long ton in grams, from which imperial masses leave stones and pounds. */
+const LONG_TON = 1_016_046.908_8;
+
+const customaryLength: CustomaryDefinition = {
+  imperial: { units: CustomaryLength, compoundUnits: FeetAndInches, compoundBelow: TEN_FEET },
+  us: { units: CustomaryLength, compoundUnits: FeetAndInches, compoundBelow: TEN_FEET },
+};
+
+const customaryMass: CustomaryDefinition = {
+  // Stones and pounds for people, pounds and ounces for lighter things.
+  imperial: { units: ImperialMass, compoundUnits: ImperialMass.slice(1), compoundBelow: LONG_TON },
+  us: { units: USMass, compoundUnits: USMass.slice(1), compoundBelow: HUNDRED_POUNDS },
+};
+
+const customaryLiquidVolume: CustomaryDefinition = {
+  imperial: { units: ImperialVolume },
+  us: { units: USVolume },
+};
+
+const customaryVelocity: CustomaryDefinition = {
+  imperial: { units: CustomaryVelocity },
+  us: { units: CustomaryVelocity },
+};
+
+/** Formats counts using SI prefixes (k, M, G…), or the numbering system chosen by `scale`. */
+export const humanizeCount = createCountHelper('si');
+/** Formats counts on the short scale (K, M, B, T). */
+export const humanizeCountShort = createCountHelper('short');
+/** Formats counts on the long scale (k, M, Md, Bn). */
+export const humanizeCountLong = createCountHelper('long');
+/** Formats counts in lakhs and crores with Indian digit grouping. */
+export const humanizeCountIndian = createCountHelper('indian');
+/** Formats counts in myriads (万, 億, 兆 or 만, 억, 조) following `locale`. */
+export const humanizeCountMyriad = createCountHelper('myriad');
+
+/** Formats ratios as percentages (`0.125` → `12.5%`). */
+export const humanizePercent = createHelper(Percent);
+/** Formats ratios as per mille (`0.0125` → `12.5‰`). */
+export const humanizePermille = createHelper(Permille);
+/** Formats ratios as basis points (`0.0025` → `25bp`). */
+export const humanizeBasisPoints = createHelper(BasisPoints);
+
+const RATIO_HELPERS: Record<RatioUnit, HumanizeHelper> = {
+  percent: humanizePercent,
+  permille: humanizePermille,
+  basisPoint: humanizeBasisPoints,
+};
+
+/** Formats ratios in the unit chosen by `ratioUnit` (percent by default). */
+export const humanizeRatio = (value: HumanizeInput, options?: RatioHelperOptions): string => {
+  const { ratioUnit = 'percent', ...rest } = options ?? {};
+  return RATIO_HELPERS[ratioUnit](value, options && rest);
+};
 
 /** Formats decimal bytes (kB, MB, GB…). */
-export const humanizeBytes = createHelper(SI, 'B');
+export const humanizeBytes = createHelper(SI, 'B', 'byte');
 /** Alias of {@link humanizeBytes}. */
-export const humanizeBytesDecimal = createHelper(SI, 'B');
+export const humanizeBytesDecimal = createHelper(SI, 'B', 'byte');
 /** Formats binary bytes (KiB, MiB, GiB…). */
-export const humanizeBytesBinary = createHelper(Binary, 'B');
+export const humanizeBytesBinary = createHelper(Binary, 'B', 'byte');
 /** Formats byte rate (Bps). */
-export const humanizeByteRate = createHelper(SI, 'Bps');
+export const humanizeByteRate = createHelper(SI, 'Bps', 'byte-per-second');
 
 /** Formats bits (b, kb, Mb, Gb, Tb, Pb, Eb, Zb, Yb). */
-export const humanizeBits = createHelper(SI, 'b');
+export const humanizeBits = createHelper(SI, 'b', 'bit');
 /** Alias of {@link humanizeBits}. */
-export const humanizeBitsDecimal = createHelper(SI, 'b');
+export const humanizeBitsDecimal = createHelper(SI, 'b', 'bit');
 /** Formats bytes (B, kB, MB, GB, TB, PB, EB, ZB, YB). */
-export const humanizeBitsBinary = createHelper(Binary, 'b');
+export const humanizeBitsBinary = createHelper(Binary, 'b', 'bit');
 /** Formats bit rate (bps). */
-export const humanizeBitRate = createHelper(SI, 'bps');
+export const humanizeBitRate = createHelper(SI, 'bps', 'bit-per-second');
 
 /** Formats decimal storage capacities. */
-export const humanizeStorage = createHelper(SI, 'B');
+export const humanizeStorage = createHelper(SI, 'B', 'byte');
 /** Formats binary storage capacities. */
-export const humanizeStorageBinary = createHelper(Binary, 'B');
-/** Formats durations from milliseconds to years. */
-export const humanizeTime = createHelper(Time);
-/** Formats distances using SI meters. */
-export const humanizeDistance = createHelper(SI, 'm');
-/** Formats masses using SI grams. */
-export const humanizeMass = createHelper(SI, 'g');
+export const humanizeStorageBinary = createHelper(Binary, 'B', 'byte');
+/** Formats durations from milliseconds to years, optionally anchored to a calendar `start` date. */
+export const humanizeTime = createTimeHelper();
+/** Formats durations as several units (e.g. `1h 23m 20s`). */
+export const humanizeTimeCompound = (value: HumanizeInput, options?: Omit<HumanizeCompoundOptions, 'units'>): string =>
+  humanizeCompound(toNumber(value), { ...options, units: Time });
+/** Formats byte rates given per second with an adaptive time unit (`7.2B/h`, `12.5MB/s`). */
+export const humanizeAdaptiveByteRate = createRateHelper(SI, 'B', 'byte');
+/** Formats bit rates given per second with an adaptive time unit (`432b/min`, `100Mb/s`). */
+export const humanizeAdaptiveBitRate = createRateHelper(SI, 'b', 'bit');
+/** Formats event counts given per second with an adaptive time unit (`30/min`, `1.2k/s`). */
+export const humanizeEventRate = createRateHelper(SI);
+/** Formats count ranges (`1.5–3k`). */
+export const humanizeCountRange = createRangeHelper(SI);
+/** Formats decimal byte ranges (`1.5–3GB`). */
+export const humanizeBytesRange = createRangeHelper(SI, 'B', 'byte');
+/** Formats binary byte ranges (`512KiB – 2MiB`). */
+export const humanizeBytesBinaryRange = createRangeHelper(Binary, 'B', 'byte');
+/** Formats bit rate ranges (`50–100Mbps`). */
+export const humanizeBitRateRange = createRangeHelper(SI, 'bps', 'bit-per-second');
+/** Formats duration ranges (`10ms – 2s`). */
+export const humanizeTimeRange = createRangeHelper(Time);
+/** Formats distances using SI meters, or miles to inches. */
+export const humanizeDistance = createMeasurementHelper('m', 'meter', customaryLength);
+/** Formats masses using SI grams, or tons to ounces. */
+export const humanizeMass = createMeasurementHelper('g', 'gram', customaryMass);
 /** Formats accelerations using meters per second squared. */
-export const humanizeAcceleration = createHelper(SI, 'm/s^2');
+export const humanizeAcceleration = createSIHelper('m/s^2');
 /** Formats electric charge (coulomb). */
-export const humanizeCharge = createHelper(SI, 'C');
+export const humanizeCharge = createSIHelper('C', 'coulomb');
 /** Formats momentum (newton second). */
-export const humanizeMomentum = createHelper(SI, 'N*s');
+export const humanizeMomentum = createSIHelper('N*s');
 /** Formats power (watt). */
-export const humanizePower = createHelper(SI, 'W');
-/** Formats velocity (meter per second). */
-export const humanizeVelocity = createHelper(SI, 'm/s');
-/** Formats volume (cubic meter). */
-export const humanizeVolume = createHelper(SI, 'm^3');
-/** Formats liquid volume (liter). */
-export const humanizeLiquidVolume = createHelper(SI, 'L');
-/** Formats temperature in Celsius. */
-export const humanizeTemperature = createHelper(SI, '°C');
-/** Formats temperature in Kelvin. */
-export const humanizeTemperatureKelvin = createHelper(SI, '°K');
+export const humanizePower = createSIHelper('W', 'watt');
+/** Formats velocity (meter per second, or miles per hour). */
+export const humanizeVelocity = createMeasurementHelper('m/s', 'meter-per-second', customaryVelocity);
+/** Formats velocity given in meters per second as knots. */
+export const humanizeVelocityKnots = createHelper(NauticalVelocity);
+/** Formats volume (cubic meter, or gallons to fluid ounces). */
+export const humanizeVolume = createMeasurementHelper('m^3', undefined, {
+  ...customaryLiquidVolume,
+  convert: (value) => value * 1_000,
+});
+/** Formats liquid volume (liter, or gallons to fluid ounces). */
+export const humanizeLiquidVolume = createMeasurementHelper('L', 'liter', customaryLiquidVolume);
+/** Formats temperatures given in Celsius. */
+export const humanizeTemperature = createTemperatureHelper('C');
+/** Formats temperatures given in kelvins. */
+export const humanizeTemperatureKelvin = createTemperatureHelper('K');
+/** Formats temperatures given in Fahrenheit. */
+export const humanizeTemperatureFahrenheit = createTemperatureHelper('F');
 /** Formats pressure (pascal). */
-export const humanizePressure = createHelper(SI, 'Pa');
+export const humanizePressure = createSIHelper('Pa', 'pascal');
 /** Formats force (newton). */
-export const humanizeForce = createHelper(SI, 'N');
+export const humanizeForce = createSIHelper('N', 'newton');
 /** Formats torque (newton meter). */
-export const humanizeTorque = createHelper(SI, 'N*m');
+export const humanizeTorque = createSIHelper('N*m');
 /** Formats energy (joule). */
-export const humanizeEnergy = createHelper(SI, 'J');
+export const humanizeEnergy = createSIHelper('J', 'joule');
 /** Formats voltage (volt). */
-export const humanizeVoltage = createHelper(SI, 'V');
+export const humanizeVoltage = createSIHelper('V', 'volt');
 /** Formats current (ampere). */
-export const humanizeCurrent = createHelper(SI, 'A');
+export const humanizeCurrent = createSIHelper('A', 'ampere');
 /** Formats resistance (ohm). */
-export const humanizeResistance = createHelper(SI, 'Ω');
+export const humanizeResistance = createSIHelper('Ω', 'ohm');
 /** Formats capacitance (farad). */
-export const humanizeCapacitance = createHelper(SI, 'F');
+export const humanizeCapacitance = createSIHelper('F', 'farad');
 /** Formats inductance (henry). */
-export const humanizeInductance = createHelper(SI, 'H');
+export const humanizeInductance = createSIHelper('H', 'henry');
 /** Formats frequency (hertz). */
-export const humanizeFrequency = createHelper(SI, 'Hz');
+export const humanizeFrequency = createSIHelper('Hz', 'hertz');
 /** Formats angle (degree). */
-export const humanizeAngle = createHelper(SI, '°');
-/** Formats length (meter). */
-export const humanizeLength = createHelper(SI, 'm');
+export const humanizeAngle = createSIHelper('°');
+/** Formats length (meter, or miles to inches). */
+export const humanizeLength = createMeasurementHelper('m', 'meter', customaryLength);
 /** Formats area (square meter). */
-export const humanizeArea = createHelper(SI, 'm^2');
+export const humanizeArea = createSIHelper('m^2');
 /** Formats volumetric flow rates (cubic meter per second). */
-export const humanizeVolumeFlowRate = createHelper(SI, 'm^3/s');
+export const humanizeVolumeFlowRate = createSIHelper('m^3/s');
 /** Formats mass flow rates (kilogram per second). */
-export const humanizeMassFlowRate = createHelper(SI, 'kg/s');
+export const humanizeMassFlowRate = createSIHelper('kg/s');
 /** Formats density (kilogram per cubic meter). */
-export const humanizeDensity = createHelper(SI, 'kg/m^3');
+export const humanizeDensity = createSIHelper('kg/m^3');
 /** Formats concentration (mole per cubic meter). */
-export const humanizeConcentration = createHelper(SI, 'mol/m^3');
+export const humanizeConcentration = createSIHelper('mol/m^3');
 /** Formats molar mass (gram per mole). */
-export const humanizeMolarMass = createHelper(SI, 'g/mol');
+export const humanizeMolarMass = createSIHelper('g/mol');
 /** Formats molar volume (cubic meter per mole). */
-export const humanizeMolarVolume = createHelper(SI, 'm^3/mol');
+export const humanizeMolarVolume = createSIHelper('m^3/mol');
 /** Formats molar density (mole per cubic meter). */
-export const humanizeMolarDensity = createHelper(SI, 'mol/m^3');
+export const humanizeMolarDensity = createSIHelper('mol/m^3');
 /** Formats molar concentration (alias of {@link humanizeConcentration}). */
-export const humanizeMolarConcentration = createHelper(SI, 'mol/m^3');
+export const humanizeMolarConcentration = createSIHelper('mol/m^3');
 /** Formats magnetic flux (weber). */
-export const humanizeMagneticFlux = createHelper(SI, 'Wb');
+export const humanizeMagneticFlux = createSIHelper('Wb', 'weber');
 /** Formats magnetic flux density (tesla). */
-export const humanizeMagneticFluxDensity = createHelper(SI, 'T');
+export const humanizeMagneticFluxDensity = createSIHelper('T', 'tesla');
 /** Formats illuminance (lux). */
-export const humanizeIlluminance = createHelper(SI, 'lx');
+export const humanizeIlluminance = createSIHelper('lx', 'lux');
 /** Formats luminous flux (lumen). */
-export const humanizeLuminousFlux = createHelper(SI, 'lm');
+export const humanizeLuminousFlux = createSIHelper('lm', 'lumen');
 /** Formats radioactivity (becquerel). */
-export const humanizeRadioactivity = createHelper(SI, 'Bq');
+export const humanizeRadioactivity = createSIHelper('Bq', 'becquerel');
 /** Formats equivalent dose (sievert). */
-export const humanizeRadiationDoseEquivalent = createHelper(SI, 'Sv');
+export const humanizeRadiationDoseEquivalent = createSIHelper('Sv', 'sievert');
 /** Formats absorbed dose (gray). */
-export const humanizeRadiationDoseAbsorbed = createHelper(SI, 'Gy');
+export const humanizeRadiationDoseAbsorbed = createSIHelper('Gy', 'gray');
 /** Formats catalytic activity (katal). */
-export const humanizeCatalyticActivity = createHelper(SI, 'kat');
+export const humanizeCatalyticActivity = createSIHelper('kat', 'katal');
+
+// Parsers for the single-table helpers above, so their default output round-trips
+// through `parseX`. The count scales other than SI, knots, ratios, range, rate and
+// compound helpers, and `unitSystem: 'us'`/`'imperial'` output have no parser.
+
+/** Parses the output of {@link humanizePercent} into a ratio. */
+export const parsePercent = createParser(Percent);
+/** Parses the output of {@link humanizePermille} into a ratio. */
+export const parsePermille = createParser(Permille);
+/** Parses the output of {@link humanizeBasisPoints} into a ratio. */
+export const parseBasisPoints = createParser(BasisPoints);
+/** Parses the output of {@link humanizeCount}. */
+export const parseCount = createParser(SI);
+/** Parses the output of {@link humanizeBytes}. */
+export const parseBytes = createParser(SI, 'B');
+/** Parses the output of {@link humanizeBytesDecimal}. */
+export const parseBytesDecimal = createParser(SI, 'B');
+/** Parses the output of {@link humanizeBytesBinary}. */
+export const parseBytesBinary = createParser(Binary, 'B');
+/** Parses the output of {@link humanizeByteRate}. */
+export const parseByteRate = createParser(SI, 'Bps');
+/** Parses the output of {@link humanizeBits}. */
+export const parseBits = createParser(SI, 'b');
+/** Parses the output of {@link humanizeBitsDecimal}. */
+export const parseBitsDecimal = createParser(SI, 'b');
+/** Parses the output of {@link humanizeBitsBinary}. */
+export const parseBitsBinary = createParser(Binary, 'b');
+/** Parses the output of {@link humanizeBitRate}. */
+export const parseBitRate = createParser(SI, 'bps');
+/** Parses the output of {@link humanizeStorage}. */
+export const parseStorage = createParser(SI, 'B');
+/** Parses the output of {@link humanizeStorageBinary}. */
+export const parseStorageBinary = createParser(Binary, 'B');
+/** Parses the output of {@link humanizeTime}. */
+export const parseTime = createParser(Time);
+/** Parses the output of {@link humanizeDistance}. */
+export const parseDistance = createSIParser('m');
+/** Parses the output of {@link humanizeMass}. */
+export const parseMass = createSIParser('g');
+/** Parses the output of {@link humanizeAcceleration}. */
+export const parseAcceleration = createSIParser('m/s^2');
+/** Parses the output of {@link humanizeCharge}. */
+export const parseCharge = createSIParser('C');
+/** Parses the output of {@link humanizeMomentum}. */
+export const parseMomentum = createSIParser('N*s');
+/** Parses the output of {@link humanizePower}. */
+export const parsePower = createSIParser('W');
+/** Parses the output of {@link humanizeVelocity}. */
+export const parseVelocity = createSIParser('m/s');
+/** Parses the output of {@link humanizeVolume}. */
+export const parseVolume = createSIParser('m^3');
+/** Parses the output of {@link humanizeLiquidVolume}. */
+export const parseLiquidVolume = createSIParser('L');
+/** Parses the output of {@link humanizeTemperature}. */
+export const parseTemperature = createParser(Celsius);
+/** Parses the output of {@link humanizeTemperatureKelvin}, accepting the deprecated `°K`. */
+export const parseTemperatureKelvin = createParser(Kelvin);
+/** Parses the output of {@link humanizeTemperatureFahrenheit}. */
+export const parseTemperatureFahrenheit = createParser(Fahrenheit);
+/** Parses the output of {@link humanizePressure}. */
+export const parsePressure = createSIParser('Pa');
+/** Parses the output of {@link humanizeForce}. */
+export const parseForce = createSIParser('N');
+/** Parses the output of {@link humanizeTorque}. */
+export const parseTorque = createSIParser('N*m');
+/** Parses the output of {@link humanizeEnergy}. */
+export const parseEnergy = createSIParser('J');
+/** Parses the output of {@link humanizeVoltage}. */
+export const parseVoltage = createSIParser('V');
+/** Parses the output of {@link humanizeCurrent}. */
+export const parseCurrent = createSIParser('A');
+/** Parses the output of {@link humanizeResistance}. */
+export const parseResistance = createSIParser('Ω');
+/** Parses the output of {@link humanizeCapacitance}. */
+export const parseCapacitance = createSIParser('F');
+/** Parses the output of {@link humanizeInductance}. */
+export const parseInductance = createSIParser('H');
+/** Parses the output of {@link humanizeFrequency}. */
+export const parseFrequency = createSIParser('Hz');
+/** Parses the output of {@link humanizeAngle}. */
+export const parseAngle = createSIParser('°');
+/** Parses the output of {@link humanizeLength}. */
+export const parseLength = createSIParser('m');
+/** Parses the output of {@link humanizeArea}. */
+export const parseArea = createSIParser('m^2');
+/** Parses the output of {@link humanizeVolumeFlowRate}. */
+export const parseVolumeFlowRate = createSIParser('m^3/s');
+/** Parses the output of {@link humanizeMassFlowRate}. */
+export const parseMassFlowRate = createSIParser('kg/s');
+/** Parses the output of {@link humanizeDensity}. */
+export const parseDensity = createSIParser('kg/m^3');
+/** Parses the output of {@link humanizeConcentration}. */
+export const parseConcentration = createSIParser('mol/m^3');
+/** Parses the output of {@link humanizeMolarMass}. */
+export const parseMolarMass = createSIParser('g/mol');
+/** Parses the output of {@link humanizeMolarVolume}. */
+export const parseMolarVolume = createSIParser('m^3/mol');
+/** Parses the output of {@link humanizeMolarDensity}. */
+export const parseMolarDensity = createSIParser('mol/m^3');
+/** Parses the output of {@link humanizeMolarConcentration}. */
+export const parseMolarConcentration = createSIParser('mol/m^3');
+/** Parses the output of {@link humanizeMagneticFlux}. */
+export const parseMagneticFlux = createSIParser('Wb');
+/** Parses the output of {@link humanizeMagneticFluxDensity}. */
+export const parseMagneticFluxDensity = createSIParser('T');
+/** Parses the output of {@link humanizeIlluminance}. */
+export const parseIlluminance = createSIParser('lx');
+/** Parses the output of {@link humanizeLuminousFlux}. */
+export const parseLuminousFlux = createSIParser('lm');
+/** Parses the output of {@link humanizeRadioactivity}. */
+export const parseRadioactivity = createSIParser('Bq');
+/** Parses the output of {@link humanizeRadiationDoseEquivalent}. */
+export const parseRadiationDoseEquivalent = createSIParser('Sv');
+/** Parses the output of {@link humanizeRadiationDoseAbsorbed}. */
+export const parseRadiationDoseAbsorbed = createSIParser('Gy');
+/** Parses the output of {@link humanizeCatalyticActivity}. */
+export const parseCatalyticActivity = createSIParser('kat');
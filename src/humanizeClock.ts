@@ -0,0 +1,136 @@
+import type { HumanizeUnitOptions } from './humanizeUnit.js';
+import { roundInteger } from './rounding.js';
+
+/**
+ * Largest field written before the seconds.
+ *
+ * - `auto`: hours only when the duration reaches one hour (`05:30`, `01:05:30`).
+ * - `hours`: always hours (`00:05:30`).
+ * - `minutes`: never hours; minutes exceed 59 instead (`65:30`).
+ */
+export type ClockLeadingField = 'auto' | 'hours' | 'minutes';
+
+/**
+ * Configuration for `humanizeClock`.
+ *
+ * `locale` selects the digits and decimal separator, `fractionDigits` the
+ * precision of the seconds and `roundingMode` how they are rounded. All
+ * fields are optional—defaults match {@link DEFAULT_CLOCK_OPTIONS}.
+ */
+export type HumanizeClockOptions = Pick<
+  HumanizeUnitOptions,
+  'locale' | 'fractionDigits' | 'roundingMode' | 'unitSeparator' | 'emptyValue'
+> & {
+  /** Largest field before the seconds. Defaults to `auto`. */
+  leadingField?: ClockLeadingField;
+  /**
+   * Minimum digits of the leading field: `2` gives `01:05:30`, `1` gives
+   * `1:05:30`. Defaults to `2`.
+   */
+  leadingDigits?: number;
+  /**
+   * Whether durations of a day or more start with whole days (`2d 03:04:05`)
+   * rather than hours beyond 23 (`51:04:05`). Ignored when `leadingField` is
+   * `minutes`. Defaults to `false`.
+   */
+  days?: boolean;
+  /** Symbol written after the days, separated by `unitSeparator`. Defaults to `d`. */
+  daySymbol?: string;
+};
+
+/**
+ * Defaults for {@link HumanizeClockOptions}.
+ */
+const DEFAULT_CLOCK_OPTIONS = {
+  locale: 'en-US',
+  fractionDigits: 0,
+  roundingMode: 'trunc',
+  unitSeparator: '',
+  emptyValue: '',
+  leadingField: 'auto',
+  leadingDigits: 2,
+  days: false,
+  daySymbol: 'd',
+} as const;
+
+/**
+ * Formats seconds as a clock or stopwatch reading such as `01:23:45.120`,
+ * `05:30` or `2d 03:04:05`.
+ *
+ * Seconds are rounded to `fractionDigits` first, by default truncating so a
+ * timer never shows a second that has not fully elapsed; carries propagate
+ * into the larger fields. Negative durations start with `-`.
+ *
+ * When `value` is `null`, `undefined`, or `NaN`, the `emptyValue` option is
+ * returned. Infinite values are stringified as-is.
+ *
+ * @param value Duration in seconds.
+ * @param options Optional configuration overriding {@link HumanizeClockOptions}.
+ * @returns Clock-style duration.
+ * @throws {Error} When `leadingDigits` is not an integer from 1 to 21 or
+ * `fractionDigits` is not an integer from 0 to 9.
+ */
+export const humanizeClock = (value: number | null | undefined, options?: HumanizeClockOptions) => {
+  const {
+    locale = DEFAULT_CLOCK_OPTIONS.locale,
+    fractionDigits = DEFAULT_CLOCK_OPTIONS.fractionDigits,
+    roundingMode = DEFAULT_CLOCK_OPTIONS.roundingMode,
+    unitSeparator = DEFAULT_CLOCK_OPTIONS.unitSeparator,
+    emptyValue = DEFAULT_CLOCK_OPTIONS.emptyValue,
+    leadingField = DEFAULT_CLOCK_OPTIONS.leadingField,
+    leadingDigits = DEFAULT_CLOCK_OPTIONS.leadingDigits,
+    days = DEFAULT_CLOCK_OPTIONS.days,
+    daySymbol = DEFAULT_CLOCK_OPTIONS.daySymbol,
+  } = options ?? {};
+
+  if (!Number.isInteger(leadingDigits) || leadingDigits < 1 || leadingDigits > 21) {
+    throw new Error('The leadingDigits option must be an integer from 1 to 21.');
+  }
+  if (!Number.isInteger(fractionDigits) || fractionDigits < 0 || fractionDigits > 9) {
+    throw new Error('The fractionDigits option must be an integer from 0 to 9.');
+  }
+
+  if (value === null || value === undefined) {
+    return emptyValue;
+  }
+
+  if (!Number.isFinite(value)) {
+    if (Number.isNaN(value)) {
+      return emptyValue;
+    }
+    return String(value);
+  }
+
+  // Work in whole steps of the last fraction digit so carries stay exact.
+  const stepsPerSecond = 10 ** fractionDigits;
+  const steps = roundInteger(value * stepsPerSecond, roundingMode);
+  const absoluteSteps = Math.abs(steps);
+  const fraction = absoluteSteps % stepsPerSecond;
+  const totalSeconds = (absoluteSteps - fraction) / stepsPerSecond;
+
+  const seconds = totalSeconds % 60;
+  const totalMinutes = (totalSeconds - seconds) / 60;
+  const showHours = leadingField === 'hours' || (leadingField === 'auto' && totalMinutes >= 60);
+  const minutes = showHours ? totalMinutes % 60 : totalMinutes;
+  const totalHours = (totalMinutes - minutes) / 60;
+  const showDays = showHours && days && totalHours >= 24;
+  const hours = showDays ? totalHours % 24 : totalHours;
+  const dayCount = (totalHours - hours) / 24;
+
+  const pad = (digits: number) => new Intl.NumberFormat(locale, { minimumIntegerDigits: digits, useGrouping: false });
+  const twoDigits = pad(2);
+  const secondsText = new Intl.NumberFormat(locale, {
+    minimumIntegerDigits: 2,
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+    useGrouping: false,
+  }).format(seconds + fraction / stepsPerSecond);
+
+  const fields = showHours
+    ? [(showDays ? twoDigits : pad(leadingDigits)).format(hours), twoDigits.format(minutes), secondsText]
+    : [pad(leadingDigits).format(minutes), secondsText];
+  const dayText = showDays ? `${pad(1).format(dayCount)}${unitSeparator}${daySymbol} ` : '';
+  const sign = steps < 0 ? '-' : '';
+
+  return `${sign}${dayText}${fields.join(':')}`;
+};
@@ -0,0 +1,195 @@
+import type { HumanizeUnitOptions } from './humanizeUnit.js';
+import { Time, type UnitArray } from './units.js';
+
+/**
+ * Configuration for `humanizeCompound`.
+ *
+ * Shares the locale, grouping, separator and empty-value semantics of
+ * {@link HumanizeUnitOptions}. All fields are optional—defaults match
+ * {@link DEFAULT_COMPOUND_OPTIONS}.
+ */
+export type HumanizeCompoundOptions = Pick<
+  HumanizeUnitOptions,
+  'units' | 'locale' | 'useGrouping' | 'unitSeparator' | 'emptyValue'
+> & {
+  /**
+   * Maximum number of consecutive units to emit, counted from the largest
+   * unit that fits the value. The last part is rounded. Defaults to `3`.
+   */
+  maxParts?: number;
+  /**
+   * Symbol of the smallest unit allowed (e.g. `s` to never show
+   * milliseconds). Defaults to the last unit of the table.
+   */
+  minUnit?: string;
+  /**
+   * Whether parts with a zero count are omitted (`1h 20s` rather than
+   * `1h 0m 20s`). Defaults to `true`.
+   */
+  dropZeros?: boolean;
+  /**
+   * Literal text placed between parts. When set it replaces the
+   * locale-aware `Intl.ListFormat` joining.
+   */
+  separator?: string;
+  /**
+   * `Intl.ListFormat` type used to join parts. `conjunction` yields
+   * `1h, 23m, and 20s`. Defaults to `unit`.
+   */
+  listType?: Intl.ListFormatType;
+  /**
+   * `Intl.ListFormat` style used to join parts. Defaults to `narrow`.
+   */
+  listStyle?: Intl.ListFormatStyle;
+};
+
+/**
+ * Defaults for {@link HumanizeCompoundOptions}.
+ */
+const DEFAULT_COMPOUND_OPTIONS = {
+  units: Time,
+  locale: 'en-US',
+  useGrouping: false,
+  unitSeparator: '',
+  emptyValue: '',
+  maxParts: 3,
+  dropZeros: true,
+  listType: 'unit',
+  listStyle: 'narrow',
+} as const;
+
+/**
+ * Returns the unit table truncated after `minUnit`.
+ *
+ * @throws {Error} When the table is empty or `minUnit` is not part of it.
+ */
+const truncateUnits = (units: UnitArray, minUnit: string | undefined) => {
+  if (units.length === 0) {
+    throw new Error('Compound formatting requires at least one unit definition.');
+  }
+  if (minUnit === undefined) {
+    return units;
+  }
+  const minIndex = units.findIndex((unit) => unit.unit === minUnit);
+  if (minIndex === -1) {
+    throw new Error(`The minUnit "${minUnit}" is not part of the unit table.`);
+  }
+  return units.slice(0, minIndex + 1);
+};
+
+/**
+ * Relative tolerance when comparing a value with a unit, like `scaleValue`.
+ * It absorbs products such as `12 * 0.0254` landing just below `0.3048`.
+ */
+const TOLERANCE = 1e-12;
+
+/**
+ * Breaks a value into integer counts of consecutive units from `units`.
+ *
+ * The last emitted part is rounded and carries propagate (`59.6s` becomes
+ * `1m 0s`, not `0m 60s`), also across non-integer ratios between units
+ * (`52w 1d` becomes `1y`).
+ *
+ * @returns Pairs of unit index and count, largest unit first.
+ */
+const splitIntoParts = (absoluteValue: number, units: UnitArray, maxParts: number) => {
+  const lastIndex = units.length - 1;
+  const valueAt = (index: number) => (units[index] as UnitArray[number]).value;
+  const leadingIndexOf = (value: number) => {
+    const index = units.findIndex((unit) => value >= unit.value * (1 - TOLERANCE));
+    return index === -1 ? lastIndex : index;
+  };
+
+  let leadingIndex = leadingIndexOf(absoluteValue);
+  let trailingIndex = Math.min(leadingIndex + maxParts - 1, lastIndex);
+
+  // Rounding may carry into a larger unit (e.g. 59.6s → 60s → 1m).
+  const trailingValue = valueAt(trailingIndex);
+  const promotedIndex = leadingIndexOf(Math.round(absoluteValue / trailingValue) * trailingValue);
+  if (promotedIndex < leadingIndex) {
+    leadingIndex = promotedIndex;
+    trailingIndex = Math.min(leadingIndex + maxParts - 1, lastIndex);
+  }
+
+  const split = (value: number) => {
+    const parts: Array<{ index: number; count: number }> = [];
+    let remaining = value;
+    for (let index = leadingIndex; index <= trailingIndex; index++) {
+      const steps = remaining / valueAt(index);
+      // `Math.max` keeps floating-point drift below zero from yielding `-1` or `-0`.
+      const count = Math.max(index === trailingIndex ? Math.round(steps) : Math.floor(steps * (1 + TOLERANCE)), 0);
+      remaining -= count * valueAt(index);
+      parts.push({ index, count });
+    }
+    return parts;
+  };
+
+  // The rounded last part may fill larger ones, so split the rounded total again.
+  const rounded = split(absoluteValue).reduce((total, { index, count }) => total + count * valueAt(index), 0);
+  return split(rounded);
+};
+
+/**
+ * Formats a value as several consecutive units of a table, such as
+ * `1h 23m 20s` with {@link Time} or `5ft 11in` with a custom table.
+ *
+ * When `value` is `null`, `undefined`, or `NaN`, the `emptyValue` option is
+ * returned. Infinite values are stringified as-is.
+ *
+ * @param value Raw numeric input in the table's base unit.
+ * @param options Optional configuration overriding {@link HumanizeCompoundOptions}.
+ * @returns Human-readable compound value.
+ * @throws {Error} When `maxParts` is not a positive integer, the table is
+ * empty, or `minUnit` is not part of the table.
+ */
+export const humanizeCompound = (value: number | null | undefined, options?: HumanizeCompoundOptions) => {
+  const {
+    emptyValue = DEFAULT_COMPOUND_OPTIONS.emptyValue,
+    units = DEFAULT_COMPOUND_OPTIONS.units,
+    locale = DEFAULT_COMPOUND_OPTIONS.locale,
+    useGrouping = DEFAULT_COMPOUND_OPTIONS.useGrouping,
+    unitSeparator = DEFAULT_COMPOUND_OPTIONS.unitSeparator,
+    maxParts = DEFAULT_COMPOUND_OPTIONS.maxParts,
+    minUnit,
+    dropZeros = DEFAULT_COMPOUND_OPTIONS.dropZeros,
+    separator,
+    listType = DEFAULT_COMPOUND_OPTIONS.listType,
+    listStyle = DEFAULT_COMPOUND_OPTIONS.listStyle,
+  } = options ?? {};
+
+  if (!Number.isInteger(maxParts) || maxParts < 1) {
+    throw new Error('The maxParts option must be a positive integer.');
+  }
+
+  if (value === null || value === undefined) {
+    return emptyValue;
+  }
+
+  if (!Number.isFinite(value)) {
+    if (Number.isNaN(value)) {
+      return emptyValue;
+    }
+    return String(value);
+  }
+
+  const allowedUnits = truncateUnits(units, minUnit);
+  const parts = splitIntoParts(Math.abs(value), allowedUnits, maxParts);
+  const nonZeroParts = parts.filter((part) => part.count !== 0);
+  const visibleParts = dropZeros ? nonZeroParts : parts;
+  // Always show at least one part so zero renders as e.g. `0s`.
+  const shownParts = visibleParts.length > 0 ? visibleParts : parts.slice(-1);
+
+  const formatter = new Intl.NumberFormat(locale, { maximumFractionDigits: 0, useGrouping });
+  const texts = shownParts.map(({ index, count }) => {
+    const { unit } = allowedUnits[index] as UnitArray[number];
+    return `${formatter.format(count)}${unit ? unitSeparator : ''}${unit}`;
+  });
+
+  const joined =
+    separator === undefined
+      ? new Intl.ListFormat(locale, { type: listType, style: listStyle }).format(texts)
+      : texts.join(separator);
+  const sign = value < 0 && nonZeroParts.length > 0 ? '-' : '';
+
+  return `${sign}${joined}`;
+};
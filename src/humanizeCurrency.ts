@@ -0,0 +1,114 @@
+import { createHumanizer, type HumanizeUnitOptions } from './humanizeUnit.js';
+import { roundToDigits } from './rounding.js';
+import { getCountScale, getCountUnits, ShortScale } from './units.js';
+
+/**
+ * Configuration for `humanizeCurrency`.
+ *
+ * Shares the unit selection, digit, rounding, locale and empty-value options
+ * of {@link HumanizeUnitOptions}.
+ */
+export type HumanizeCurrencyOptions = Pick<
+  HumanizeUnitOptions,
+  | 'units'
+  | 'significantDigits'
+  | 'minimumSignificantDigits'
+  | 'fractionDigits'
+  | 'roundingMode'
+  | 'locale'
+  | 'useGrouping'
+  | 'unitSeparator'
+  | 'emptyValue'
+> & {
+  /** ISO 4217 currency code, such as `USD` or `EUR`. */
+  currency: string;
+  /** How the currency is shown (`$`, `US$`, `USD`, `US dollars`). Defaults to `symbol`. */
+  currencyDisplay?: Intl.NumberFormatOptions['currencyDisplay'];
+  /**
+   * `accounting` wraps negative amounts in parentheses in locales that use
+   * them (`($1.2M)`). Defaults to `standard`.
+   */
+  currencySign?: 'standard' | 'accounting';
+};
+
+/**
+ * Default magnitude table: the myriads of Japanese, Chinese and Korean
+ * (`￥3.4億`), otherwise {@link ShortScale}.
+ */
+const getCurrencyUnits = (locale: string | undefined) =>
+  locale !== undefined && getCountScale(locale) === 'myriad' ? getCountUnits('myriad', locale) : ShortScale;
+
+/** Number parts after which the magnitude symbol is inserted. */
+const NUMBER_PART_TYPES: ReadonlySet<Intl.NumberFormatPartTypes> = new Set(['integer', 'group', 'decimal', 'fraction']);
+
+/**
+ * Formats a monetary amount compactly, such as `$1.2M`, `850 K€` or
+ * `($3.4B)`, with the currency symbol placed and spaced for the locale.
+ *
+ * The magnitude is chosen like `humanizeUnit` does, and follows
+ * `significantDigits` and `roundingMode`. Unless `units` is set, it comes from
+ * the myriad table of the language for Japanese, Chinese and Korean locales
+ * (`￥3.4億`) and from {@link ShortScale} otherwise. Amounts below the
+ * smallest magnitude use the currency's own fraction digits (`$12.50`,
+ * `¥1,235`).
+ *
+ * @param value Amount in the currency's main unit.
+ * @param options Currency and optional configuration, see {@link HumanizeCurrencyOptions}.
+ * @returns Localized compact amount.
+ * @throws {RangeError} When `currency` is not a well-formed currency code.
+ * @throws {Error} When the unit table is empty or not ordered from largest to
+ * smallest.
+ */
+export const humanizeCurrency = (value: number | null | undefined, options: HumanizeCurrencyOptions) => {
+  const { currency, currencyDisplay = 'symbol', currencySign = 'standard', ...unitOptions } = options;
+  const humanizer = createHumanizer({
+    ...unitOptions,
+    units: unitOptions.units ?? getCurrencyUnits(unitOptions.locale),
+  });
+  const { unit, scaledValue, parts } = humanizer.formatToParts(value);
+  if (!unit) {
+    return parts.map((part) => part.value).join('');
+  }
+
+  const { locale, significantDigits, minimumSignificantDigits, fractionDigits, roundingMode, useGrouping } =
+    humanizer.options;
+  let digits: Intl.NumberFormatOptions = {};
+  if (fractionDigits !== undefined) {
+    digits = { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits };
+  } else if (unit.unit) {
+    digits = { maximumSignificantDigits: significantDigits, minimumSignificantDigits };
+  }
+  const formatter = new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency,
+    currencyDisplay,
+    currencySign,
+    useGrouping,
+    ...digits,
+  });
+
+  // Round here rather than through the Intl `roundingMode` option, which
+  // older runtimes ignore, so Intl only has to write the digits.
+  const roundedValue = roundToDigits(scaledValue, {
+    significantDigits,
+    fractionDigits:
+      digits.maximumSignificantDigits === undefined ? formatter.resolvedOptions().maximumFractionDigits : undefined,
+    roundingMode,
+  });
+  const currencyParts = formatter.formatToParts(roundedValue);
+  if (!unit.unit) {
+    return currencyParts.map((part) => part.value).join('');
+  }
+
+  let lastNumberIndex = -1;
+  currencyParts.forEach((part, index) => {
+    if (NUMBER_PART_TYPES.has(part.type)) {
+      lastNumberIndex = index;
+    }
+  });
+  return currencyParts
+    .map((part, index) =>
+      index === lastNumberIndex ? `${part.value}${humanizer.options.unitSeparator}${unit.unit}` : part.value,
+    )
+    .join('');
+};
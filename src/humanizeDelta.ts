@@ -0,0 +1,74 @@
+import { type HumanizeUnitOptions, humanizeUnit } from './humanizeUnit.js';
+import { Percent } from './units.js';
+
+/**
+ * Configuration for `humanizeDelta`.
+ *
+ * Shares every option of {@link HumanizeUnitOptions}. `signDisplay` defaults
+ * to `exceptZero`, so increases read `+1.2k` and decreases `−350MB`.
+ */
+export type HumanizeDeltaOptions = HumanizeUnitOptions;
+
+/**
+ * Output of `humanizeDelta`.
+ */
+export type HumanizedDelta = {
+  /** Absolute change in the unit table and postfix of the values (`+1.2k`). */
+  absolute: string;
+  /** Change relative to the previous value as a percentage (`+12.5%`). */
+  relative: string;
+  /** Signed absolute change, or `NaN` when either value is empty. */
+  change: number;
+  /**
+   * Signed relative change (`0.125` for `+12.5%`), or `NaN` when either
+   * value is empty or the previous value is zero.
+   */
+  ratio: number;
+};
+
+const toNumber = (value: number | null | undefined) => (value === null || value === undefined ? Number.NaN : value);
+
+/**
+ * Formats the change between two values for dashboards, such as
+ * `+1.2k requests` and `+12.5%`.
+ *
+ * The absolute change uses the unit table and postfix of the options and
+ * picks its own magnitude (`+350MB` next to a total of `1.2GB`). The
+ * relative change is measured against the magnitude of `previous`, so a move
+ * from `-10` to `-5` is `+50%`. Both follow the digit and rounding options;
+ * empty values, and the relative change from zero, yield `emptyValue`.
+ *
+ * @param current Latest value.
+ * @param previous Value to compare against.
+ * @param options Optional configuration overriding {@link HumanizeDeltaOptions}.
+ * @returns Formatted and raw absolute and relative changes.
+ * @throws {Error} When the unit table is empty or not ordered from largest to
+ * smallest.
+ */
+export const humanizeDelta = (
+  current: number | null | undefined,
+  previous: number | null | undefined,
+  options?: HumanizeDeltaOptions,
+): HumanizedDelta => {
+  const { signDisplay = 'exceptZero', ...rest } = options ?? {};
+  const change = toNumber(current) - toNumber(previous);
+  const ratio = previous === 0 ? Number.NaN : change / Math.abs(toNumber(previous));
+
+  return {
+    absolute: humanizeUnit(change, { ...rest, signDisplay }),
+    relative: humanizeUnit(ratio, {
+      units: Percent,
+      locale: rest.locale,
+      significantDigits: rest.significantDigits,
+      minimumSignificantDigits: rest.minimumSignificantDigits,
+      fractionDigits: rest.fractionDigits,
+      roundingMode: rest.roundingMode,
+      useGrouping: rest.useGrouping,
+      groupingStyle: rest.groupingStyle,
+      emptyValue: rest.emptyValue,
+      signDisplay,
+    }),
+    change,
+    ratio,
+  };
+};
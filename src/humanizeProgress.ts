@@ -0,0 +1,278 @@
+import { humanizeClock } from './humanizeClock.js';
+import { humanizeCompound } from './humanizeCompound.js';
+import { humanizeRate } from './humanizeRate.js';
+import { type HumanizeUnitOptions, humanizeUnit } from './humanizeUnit.js';
+import { Percent, SI, Time } from './units.js';
+
+/**
+ * Progress of a job at one point in time.
+ */
+export type ProgressSample = {
+  /** Amount done so far, such as bytes transferred. */
+  done: number;
+  /** Total amount, or `null` / `undefined` when it is not known. */
+  total?: number | null;
+  /** Seconds elapsed since the job started. */
+  elapsed: number;
+};
+
+/**
+ * Configuration for `humanizeProgress` and `createProgressTracker`.
+ *
+ * `units`, `postfix` and `postfixName` describe the amount and default to
+ * bytes with {@link SI} prefixes; the other {@link HumanizeUnitOptions} apply
+ * to every formatted piece.
+ */
+export type HumanizeProgressOptions = Pick<
+  HumanizeUnitOptions,
+  | 'units'
+  | 'postfix'
+  | 'postfixName'
+  | 'significantDigits'
+  | 'locale'
+  | 'useGrouping'
+  | 'unitSeparator'
+  | 'unitDisplay'
+  | 'emptyValue'
+> & {
+  /**
+   * Text with `{done}`, `{total}`, `{percent}`, `{rate}`, `{eta}` and
+   * `{elapsed}` placeholders. Defaults to
+   * `{done} / {total} ({percent}) · {rate} · {eta} left`.
+   */
+  template?: string;
+  /**
+   * Template used while the total is unknown. Defaults to
+   * `{done} · {rate}`.
+   */
+  unknownTotalTemplate?: string;
+  /**
+   * Text of `{eta}` when the job makes no progress, so the remaining time is
+   * infinite. Defaults to `∞`.
+   */
+  unknownEta?: string;
+  /**
+   * Seconds after which a throughput sample has lost half its weight in the
+   * moving average. Smaller values follow changes faster; larger values
+   * steady the ETA. Defaults to `5`.
+   */
+  halfLife?: number;
+};
+
+/**
+ * Formatted pieces of a progress summary together with the numbers behind
+ * them.
+ */
+export type HumanizedProgress = {
+  /** The filled-in template. */
+  text: string;
+  /** Amount done, in its own unit (`45.2MB`). */
+  done: string;
+  /** Total amount (`1.2GB`), or `emptyValue` when unknown. */
+  total: string;
+  /** Share done, rounded down (`3.8%`), or `emptyValue` when the total is unknown. */
+  percent: string;
+  /** Smoothed throughput (`2.1MB/s`), or `emptyValue` before any time has elapsed. */
+  rate: string;
+  /** Estimated time left (`9m 10s`), or `unknownEta`. */
+  eta: string;
+  /** Time elapsed as a clock (`01:05`). */
+  elapsed: string;
+  /** Share done from 0 to 1, or `NaN` when the total is unknown. */
+  ratio: number;
+  /** Smoothed throughput per second, or `NaN` before any time has elapsed. */
+  ratePerSecond: number;
+  /** Estimated seconds left: `Infinity` without progress, `NaN` when the total is unknown. */
+  secondsLeft: number;
+};
+
+/**
+ * Stateful progress formatter returned by {@link createProgressTracker}.
+ */
+export type ProgressTracker = {
+  /** Records a sample and returns the summary with the smoothed throughput. */
+  update: (sample: ProgressSample) => HumanizedProgress;
+};
+
+/**
+ * Defaults for {@link HumanizeProgressOptions}.
+ */
+const DEFAULT_PROGRESS_OPTIONS = {
+  units: SI,
+  postfix: 'B',
+  postfixName: 'byte',
+  emptyValue: '',
+  template: '{done} / {total} ({percent}) · {rate} · {eta} left',
+  unknownTotalTemplate: '{done} · {rate}',
+  unknownEta: '∞',
+  halfLife: 5,
+} as const;
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+/**
+ * Updates an exponentially weighted moving average of the throughput with a
+ * new sample. The first sample uses the average since the start; later
+ * samples are weighted by the time they cover, so irregular updates count
+ * fairly.
+ */
+const smoothRate = (rate: number, previous: ProgressSample | undefined, sample: ProgressSample, halfLife: number) => {
+  if (!previous || Number.isNaN(rate)) {
+    return sample.elapsed > 0 ? sample.done / sample.elapsed : Number.NaN;
+  }
+  const interval = sample.elapsed - previous.elapsed;
+  if (interval <= 0) {
+    return rate;
+  }
+  const instantRate = (sample.done - previous.done) / interval;
+  const weight = 1 - 0.5 ** (interval / halfLife);
+  return rate + weight * (instantRate - rate);
+};
+
+/**
+ * Formats a sample with an already smoothed throughput.
+ */
+const formatProgress = (
+  sample: ProgressSample,
+  ratePerSecond: number,
+  options: HumanizeProgressOptions | undefined,
+): HumanizedProgress => {
+  const {
+    units = DEFAULT_PROGRESS_OPTIONS.units,
+    postfix = DEFAULT_PROGRESS_OPTIONS.postfix,
+    postfixName = DEFAULT_PROGRESS_OPTIONS.postfixName,
+    emptyValue = DEFAULT_PROGRESS_OPTIONS.emptyValue,
+    template = DEFAULT_PROGRESS_OPTIONS.template,
+    unknownTotalTemplate = DEFAULT_PROGRESS_OPTIONS.unknownTotalTemplate,
+    unknownEta = DEFAULT_PROGRESS_OPTIONS.unknownEta,
+    halfLife: _halfLife,
+    ...rest
+  } = options ?? {};
+  const { done, total, elapsed } = sample;
+  const amountOptions = { ...rest, units, postfix, postfixName, emptyValue };
+  const hasTotal = total !== null && total !== undefined && Number.isFinite(total);
+
+  // Each amount picks its own unit, so early progress reads `45.2MB`, not `0.05GB`.
+  const doneText = humanizeUnit(done, amountOptions);
+  let totalText = emptyValue;
+  let percent = emptyValue;
+  let ratio = Number.NaN;
+  let secondsLeft = Number.NaN;
+  let eta = unknownEta;
+  if (hasTotal) {
+    totalText = humanizeUnit(total, amountOptions);
+    ratio = total === 0 ? 1 : done / total;
+    percent = humanizeUnit(ratio, {
+      units: Percent,
+      fractionDigits: 1,
+      roundingMode: 'floor',
+      locale: rest.locale,
+      unitSeparator: rest.unitSeparator,
+      emptyValue,
+    });
+    secondsLeft = done >= total ? 0 : ratePerSecond > 0 ? (total - done) / ratePerSecond : Number.POSITIVE_INFINITY;
+    if (Number.isFinite(secondsLeft)) {
+      eta = humanizeCompound(Math.ceil(secondsLeft), {
+        units: Time,
+        minUnit: 's',
+        maxParts: 2,
+        separator: ' ',
+        locale: rest.locale,
+        unitSeparator: rest.unitSeparator,
+      });
+    }
+  }
+
+  const pieces: Record<string, string> = {
+    done: doneText,
+    total: totalText,
+    percent,
+    rate: humanizeRate(ratePerSecond, amountOptions),
+    eta,
+    elapsed: humanizeClock(elapsed, { locale: rest.locale, emptyValue }),
+  };
+  const text = (hasTotal ? template : unknownTotalTemplate).replace(
+    PLACEHOLDER,
+    (placeholder, name: string) => pieces[name] ?? placeholder,
+  );
+
+  return {
+    text,
+    done: doneText,
+    total: totalText,
+    percent,
+    rate: pieces.rate as string,
+    eta,
+    elapsed: pieces.elapsed as string,
+    ratio,
+    ratePerSecond,
+    secondsLeft,
+  };
+};
+
+/**
+ * Returns the validated `halfLife` option.
+ *
+ * @throws {Error} When `halfLife` is not a positive number.
+ */
+const resolveHalfLife = (options: HumanizeProgressOptions | undefined) => {
+  const { halfLife = DEFAULT_PROGRESS_OPTIONS.halfLife } = options ?? {};
+  if (!(halfLife > 0)) {
+    throw new Error('The halfLife option must be a positive number.');
+  }
+  return halfLife;
+};
+
+/**
+ * Formats the progress of a transfer or job as a one-line summary, such as
+ * `45.2MB / 1.2GB (3.7%) · 2.1MB/s · 9m 10s left`, along with its pieces.
+ *
+ * Given one sample, the throughput is the average since the start. Given the
+ * samples of a job in order, it is an exponentially weighted moving average
+ * (see `halfLife`), so the ETA follows recent speed without jumping around.
+ * Use {@link createProgressTracker} to feed samples as they arrive.
+ *
+ * @param samples The latest sample, or every sample so far in order.
+ * @param options Optional configuration overriding {@link HumanizeProgressOptions}.
+ * @returns The summary text, its formatted pieces and the numbers behind them.
+ * @throws {Error} When `samples` is empty or `halfLife` is not positive.
+ */
+export const humanizeProgress = (
+  samples: ProgressSample | readonly ProgressSample[],
+  options?: HumanizeProgressOptions,
+): HumanizedProgress => {
+  const halfLife = resolveHalfLife(options);
+  const list: readonly ProgressSample[] = Array.isArray(samples) ? samples : [samples as ProgressSample];
+  const latest = list[list.length - 1];
+  if (!latest) {
+    throw new Error('Progress formatting requires at least one sample.');
+  }
+
+  let rate = Number.NaN;
+  list.forEach((sample, index) => {
+    rate = smoothRate(rate, list[index - 1], sample, halfLife);
+  });
+  return formatProgress(latest, rate, options);
+};
+
+/**
+ * Creates a tracker that smooths the throughput across updates, for
+ * progress callbacks that report one sample at a time.
+ *
+ * @param options Optional configuration overriding {@link HumanizeProgressOptions}.
+ * @returns Tracker whose `update` returns the summary for each new sample.
+ * @throws {Error} When `halfLife` is not positive.
+ */
+export const createProgressTracker = (options?: HumanizeProgressOptions): ProgressTracker => {
+  const halfLife = resolveHalfLife(options);
+  let previous: ProgressSample | undefined;
+  let rate = Number.NaN;
+
+  return {
+    update: (sample) => {
+      rate = smoothRate(rate, previous, sample, halfLife);
+      previous = sample;
+      return formatProgress(sample, rate, options);
+    },
+  };
+};
@@ -0,0 +1,89 @@
+import { type HumanizeUnitOptions, humanizeUnit } from './humanizeUnit.js';
+import { RateTime, restrictUnits, SI, type Unit, type UnitArray } from './units.js';
+
+/**
+ * How the time unit is attached to the quantity.
+ *
+ * - `slash`: `MB/s`, `B/h`, `requests/min`.
+ * - `per`: `MBps`, `Bph`, the compact style of network rates.
+ */
+export type RateStyle = 'slash' | 'per';
+
+/**
+ * Configuration for `humanizeRate`.
+ *
+ * `units`, `postfix` and `postfixName` describe the quantity (bytes, bits,
+ * requests…); all other {@link HumanizeUnitOptions} apply as usual.
+ */
+export type HumanizeRateOptions = HumanizeUnitOptions & {
+  /**
+   * Candidate denominators in seconds, largest to smallest. Defaults to
+   * {@link RateTime} (per day, hour, minute and second).
+   */
+  timeUnits?: UnitArray;
+  /** `slash` yields `MB/s`, `per` yields `MBps`. Defaults to `slash`. */
+  rateStyle?: RateStyle;
+};
+
+/**
+ * Chooses the denominator: the smallest time unit for which the rate reaches
+ * one whole quantity unit, or the largest time unit for slower rates.
+ */
+const selectTimeUnit = (ratePerSecond: number, timeUnits: UnitArray) => {
+  const magnitude = Math.abs(ratePerSecond);
+  const ascending = [...timeUnits].reverse();
+  return ascending.find((unit) => magnitude * unit.value >= 1) ?? (timeUnits[0] as Unit);
+};
+
+/**
+ * Formats a rate given per second, choosing the quantity prefix and the time
+ * denominator together so the number stays readable: `7.2B/h` rather than
+ * `0.002Bps`, and `12.5MB/s` for fast transfers.
+ *
+ * The quantity table's fractional prefixes (milli, micro…) are not used;
+ * slow rates move to a longer time unit instead. Zero is shown per second.
+ *
+ * @param ratePerSecond Amount of the quantity per second.
+ * @param options Optional configuration overriding {@link HumanizeRateOptions}.
+ * @returns Human-readable rate.
+ * @throws {Error} When either table is empty or not ordered from largest to
+ * smallest.
+ */
+export const humanizeRate = (ratePerSecond: number | null | undefined, options?: HumanizeRateOptions) => {
+  const {
+    timeUnits = RateTime,
+    rateStyle = 'slash',
+    units: allUnits = SI,
+    postfix = '',
+    postfixName,
+    minUnit,
+    maxUnit,
+    excludeUnits,
+    ...rest
+  } = options ?? {};
+  if (timeUnits.length === 0) {
+    throw new Error('Rate formatting requires at least one time unit.');
+  }
+  // Restrict by the quantity's own symbols (`MB`), which the rate postfix would hide.
+  const units = restrictUnits(allUnits, { minUnit, maxUnit, excludeUnits, postfix });
+  const useGrouping = rest.useGrouping ?? maxUnit !== undefined;
+
+  if (ratePerSecond === null || ratePerSecond === undefined || !Number.isFinite(ratePerSecond)) {
+    return humanizeUnit(ratePerSecond, { ...rest, useGrouping, units, postfix, postfixName });
+  }
+
+  const timeUnit =
+    ratePerSecond === 0 ? (timeUnits[timeUnits.length - 1] as Unit) : selectTimeUnit(ratePerSecond, timeUnits);
+  const wholeUnits = units.filter((unit) => unit.value >= 1);
+  const ratePostfix = rateStyle === 'per' ? `${postfix}p${timeUnit.unit}` : `${postfix}/${timeUnit.unit}`;
+  const ratePostfixName =
+    typeof postfixName === 'string' && timeUnit.name ? `${postfixName}-per-${timeUnit.name}` : undefined;
+
+  return humanizeUnit(ratePerSecond * timeUnit.value, {
+    ...rest,
+    useGrouping,
+    units: wholeUnits.length > 0 ? wholeUnits : units,
+    postfix: ratePostfix,
+    postfixName: ratePostfixName,
+  });
+};
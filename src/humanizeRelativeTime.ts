@@ -0,0 +1,168 @@
+import { Time, type Unit, type UnitArray } from './units.js';
+
+/**
+ * Configuration for `humanizeRelativeTime`. All fields are optional—defaults
+ * match {@link DEFAULT_RELATIVE_TIME_OPTIONS}.
+ */
+export type HumanizeRelativeTimeOptions = {
+  /**
+   * Ordered list of units in seconds (largest to smallest). Only units whose
+   * `name` is an `Intl.RelativeTimeFormat` unit (`year`, `quarter`, `month`,
+   * `week`, `day`, `hour`, `minute`, `second`) are used. Defaults to
+   * {@link Time}.
+   */
+  units?: UnitArray;
+  /** BCP 47 locale string passed to `Intl.RelativeTimeFormat`. Defaults to `en-US`. */
+  locale?: string;
+  /** `Intl.RelativeTimeFormat` style. Defaults to `long`. */
+  style?: Intl.RelativeTimeFormatStyle;
+  /**
+   * `auto` allows phrases such as `yesterday`; `always` keeps numbers
+   * (`1 day ago`). Defaults to `auto`.
+   */
+  numeric?: Intl.RelativeTimeFormatNumeric;
+  /**
+   * Deltas whose magnitude is below this many seconds are rendered as
+   * {@link justNowText}. Defaults to `10`; `0` disables it.
+   */
+  justNowThreshold?: number;
+  /**
+   * Text for deltas below {@link justNowThreshold}. Defaults to the locale's
+   * phrase for the current second (`now`).
+   */
+  justNowText?: string;
+  /**
+   * Output value used when the input is `null`, `undefined`, `NaN` or
+   * infinite. Defaults to an empty string.
+   */
+  emptyValue?: string;
+};
+
+/**
+ * Defaults for {@link HumanizeRelativeTimeOptions}.
+ */
+const DEFAULT_RELATIVE_TIME_OPTIONS = {
+  units: Time,
+  locale: 'en-US',
+  style: 'long',
+  numeric: 'auto',
+  justNowThreshold: 10,
+  emptyValue: '',
+} as const;
+
+/** Unit names accepted by `Intl.RelativeTimeFormat`. */
+const RELATIVE_TIME_UNITS: ReadonlySet<string> = new Set<Intl.RelativeTimeFormatUnitSingular>([
+  'year',
+  'quarter',
+  'month',
+  'week',
+  'day',
+  'hour',
+  'minute',
+  'second',
+]);
+
+/**
+ * Unit entry paired with its `Intl.RelativeTimeFormat` unit.
+ */
+type RelativeUnit = { unit: Unit; relativeUnit: Intl.RelativeTimeFormatUnitSingular };
+
+/**
+ * Keeps the units of a table that `Intl.RelativeTimeFormat` can express.
+ *
+ * @throws {Error} When no unit of the table is supported.
+ */
+const getRelativeUnits = (units: UnitArray): RelativeUnit[] => {
+  const relativeUnits = units
+    .filter((unit) => unit.name !== undefined && RELATIVE_TIME_UNITS.has(unit.name))
+    .map((unit) => ({ unit, relativeUnit: unit.name as Intl.RelativeTimeFormatUnitSingular }));
+  if (relativeUnits.length === 0) {
+    throw new Error('Relative time formatting requires at least one unit named like an Intl.RelativeTimeFormat unit.');
+  }
+  return relativeUnits;
+};
+
+/**
+ * Chooses the unit and rounded count for a delta. Counts that round up to the
+ * next unit are promoted (`59.6 minutes` becomes `1 hour`).
+ */
+const selectRelativeUnit = (seconds: number, relativeUnits: RelativeUnit[]) => {
+  const magnitude = Math.abs(seconds);
+  let index = relativeUnits.findIndex(({ unit }) => magnitude >= unit.value);
+  if (index === -1) {
+    index = relativeUnits.length - 1;
+  }
+  const current = relativeUnits[index] as RelativeUnit;
+  const count = Math.round(seconds / current.unit.value);
+  const larger = relativeUnits[index - 1];
+  if (larger && Math.abs(count) * current.unit.value >= larger.unit.value) {
+    return { relativeUnit: larger.relativeUnit, count: Math.round(seconds / larger.unit.value) };
+  }
+  return { relativeUnit: current.relativeUnit, count };
+};
+
+/**
+ * Formats a signed number of seconds as past or future phrasing, such as
+ * `3 hours ago`, `in 2 days` or `yesterday`.
+ *
+ * The unit is chosen from the table like `humanizeTime` does and the count is
+ * rounded to a whole number. Negative deltas are in the past.
+ *
+ * @param secondsDelta Signed offset from now in seconds.
+ * @param options Optional configuration overriding {@link HumanizeRelativeTimeOptions}.
+ * @returns Localized relative time.
+ * @throws {Error} When the table has no unit supported by `Intl.RelativeTimeFormat`.
+ */
+export const humanizeRelativeTime = (
+  secondsDelta: number | null | undefined,
+  options?: HumanizeRelativeTimeOptions,
+) => {
+  const {
+    units = DEFAULT_RELATIVE_TIME_OPTIONS.units,
+    locale = DEFAULT_RELATIVE_TIME_OPTIONS.locale,
+    style = DEFAULT_RELATIVE_TIME_OPTIONS.style,
+    numeric = DEFAULT_RELATIVE_TIME_OPTIONS.numeric,
+    justNowThreshold = DEFAULT_RELATIVE_TIME_OPTIONS.justNowThreshold,
+    justNowText,
+    emptyValue = DEFAULT_RELATIVE_TIME_OPTIONS.emptyValue,
+  } = options ?? {};
+
+  const relativeUnits = getRelativeUnits(units);
+
+  if (secondsDelta === null || secondsDelta === undefined || !Number.isFinite(secondsDelta)) {
+    return emptyValue;
+  }
+
+  if (Math.abs(secondsDelta) < justNowThreshold) {
+    return justNowText ?? new Intl.RelativeTimeFormat(locale, { style, numeric: 'auto' }).format(0, 'second');
+  }
+
+  const { relativeUnit, count } = selectRelativeUnit(secondsDelta, relativeUnits);
+  return new Intl.RelativeTimeFormat(locale, { style, numeric }).format(count, relativeUnit);
+};
+
+/**
+ * Configuration for `humanizeRelativeDate`.
+ */
+export type HumanizeRelativeDateOptions = HumanizeRelativeTimeOptions & {
+  /**
+   * Reference point, or a function returning it. Defaults to the current
+   * time; inject a fixed value for deterministic output.
+   */
+  now?: Date | number | (() => Date | number);
+};
+
+/**
+ * Formats a date relative to now, such as `5 minutes ago`.
+ *
+ * @param date Date or epoch milliseconds to describe.
+ * @param options Optional configuration overriding {@link HumanizeRelativeDateOptions}.
+ * @returns Localized relative time, or `emptyValue` for invalid dates.
+ * @throws {Error} When the table has no unit supported by `Intl.RelativeTimeFormat`.
+ */
+export const humanizeRelativeDate = (date: Date | number | null | undefined, options?: HumanizeRelativeDateOptions) => {
+  const { now = Date.now, ...relativeOptions } = options ?? {};
+  const reference = typeof now === 'function' ? now() : now;
+  const delta = date === null || date === undefined ? undefined : (Number(date) - Number(reference)) / 1_000;
+  return humanizeRelativeTime(delta, relativeOptions);
+};
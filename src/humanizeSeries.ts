@@ -0,0 +1,218 @@
+import { createHumanizer, type HumanizeUnitOptions } from './humanizeUnit.js';
+import type { Unit } from './units.js';
+
+/**
+ * Which magnitude of a series picks the shared unit.
+ *
+ * - `max`: the largest magnitude, so no label needs a bigger unit (`0.95M, 1.05M`).
+ * - `median`: the median magnitude, favouring typical values.
+ * - `min`: the smallest non-zero magnitude, so no label drops below one (`950k, 1050k`).
+ */
+export type SeriesUnitStrategy = 'max' | 'median' | 'min';
+
+/**
+ * Configuration for `humanizeSeries`.
+ *
+ * Shares every option of {@link HumanizeUnitOptions}. `significantDigits`
+ * applies to the value picked by `strategy`; all labels then use the same
+ * number of fraction digits.
+ */
+export type HumanizeSeriesOptions = HumanizeUnitOptions & {
+  /** Which magnitude picks the shared unit. Defaults to `max`. */
+  strategy?: SeriesUnitStrategy;
+};
+
+/**
+ * Most fraction digits the series formatter adds to tell distinct values apart.
+ */
+const MAX_FRACTION_DIGITS = 20;
+
+/**
+ * Returns the magnitude of a series selected by `strategy`, ignoring zero,
+ * empty and non-finite values, or `undefined` when none remain.
+ */
+const pickMagnitude = (values: ReadonlyArray<number | null | undefined>, strategy: SeriesUnitStrategy) => {
+  const magnitudes = values
+    .filter((value): value is number => typeof value === 'number' && Number.isFinite(value) && value !== 0)
+    .map((value) => Math.abs(value))
+    .sort((a, b) => a - b);
+
+  if (strategy === 'min') {
+    return magnitudes[0];
+  }
+  if (strategy === 'median') {
+    return magnitudes[Math.floor((magnitudes.length - 1) / 2)];
+  }
+  return magnitudes[magnitudes.length - 1];
+};
+
+/**
+ * Fraction digits that show `significantDigits` digits of `scaledMagnitude`.
+ */
+const fractionDigitsFor = (scaledMagnitude: number | undefined, significantDigits: number) => {
+  if (scaledMagnitude === undefined) {
+    return 0;
+  }
+  const integerDigits = Math.floor(Math.log10(scaledMagnitude)) + 1;
+  return Math.min(Math.max(significantDigits - integerDigits, 0), MAX_FRACTION_DIGITS);
+};
+
+/**
+ * Formats values in one unit with a fixed number of fraction digits.
+ */
+const formatInUnit = (
+  values: ReadonlyArray<number | null | undefined>,
+  unitOptions: HumanizeUnitOptions,
+  unit: Unit,
+  useGrouping: boolean,
+  fractionDigits: number,
+) => {
+  // The table is already restricted; grouping keeps the default derived from `maxUnit`.
+  const humanizer = createHumanizer({
+    ...unitOptions,
+    units: [unit],
+    minUnit: undefined,
+    maxUnit: undefined,
+    excludeUnits: undefined,
+    useGrouping,
+    fractionDigits,
+  });
+  return values.map(humanizer.format);
+};
+
+/**
+ * Formats a series of values (a chart axis, a table column) with one shared
+ * unit and one shared number of fraction digits, so labels line up and differ
+ * only where the values differ: `0.95M, 1.00M, 1.05M` rather than
+ * `950k, 1M, 1.05M`.
+ *
+ * Unless `fractionDigits` is set, digits are added while distinct values
+ * would otherwise share a label. Empty and non-finite entries format like
+ * `humanizeUnit`.
+ *
+ * @param values Raw numeric inputs.
+ * @param options Optional configuration overriding {@link HumanizeSeriesOptions}.
+ * @returns One label per value, in input order.
+ * @throws {Error} When the unit table is empty or not ordered from largest to
+ * smallest.
+ */
+export const humanizeSeries = (
+  values: ReadonlyArray<number | null | undefined>,
+  options?: HumanizeSeriesOptions,
+): string[] => {
+  const { strategy = 'max', ...unitOptions } = options ?? {};
+  const { options: resolved, scale } = createHumanizer(unitOptions);
+  const magnitude = pickMagnitude(values, strategy);
+  // Series without any non-zero value use the unit humanizeUnit picks for zero.
+  const { unit, value: scaledMagnitude } = scale(magnitude ?? 0);
+  const format = (digits: number) => formatInUnit(values, unitOptions, unit, resolved.useGrouping, digits);
+
+  if (resolved.fractionDigits !== undefined) {
+    return format(resolved.fractionDigits);
+  }
+
+  let fractionDigits = fractionDigitsFor(
+    magnitude === undefined ? undefined : scaledMagnitude,
+    resolved.significantDigits,
+  );
+  let labels = format(fractionDigits);
+  const distinctValues = new Set(values.filter((value) => typeof value === 'number' && Number.isFinite(value)));
+  while (fractionDigits < MAX_FRACTION_DIGITS && new Set(labels).size < distinctValues.size) {
+    fractionDigits++;
+    labels = format(fractionDigits);
+  }
+  return labels;
+};
+
+/**
+ * Configuration for `humanizeAxisTicks`.
+ */
+export type HumanizeAxisTicksOptions = Omit<HumanizeSeriesOptions, 'fractionDigits'> & {
+  /** Approximate number of ticks. Defaults to `5`. */
+  tickCount?: number;
+};
+
+/**
+ * Ticks of a chart axis: round values and their labels.
+ */
+export type AxisTicks = {
+  /** Tick positions in the table's base unit, ascending. */
+  values: number[];
+  /** Label of each tick, sharing one unit and precision. */
+  labels: string[];
+};
+
+/**
+ * Rounds a positive number to 1, 2, 5 or 10 times a power of ten.
+ */
+const niceNumber = (value: number, round: boolean) => {
+  const exponent = Math.floor(Math.log10(value));
+  const fraction = value / 10 ** exponent;
+  let nice: number;
+  if (round) {
+    nice = fraction < 1.5 ? 1 : fraction < 3 ? 2 : fraction < 7 ? 5 : 10;
+  } else {
+    nice = fraction <= 1 ? 1 : fraction <= 2 ? 2 : fraction <= 5 ? 5 : 10;
+  }
+  return nice * 10 ** exponent;
+};
+
+/**
+ * Computes round tick values spanning `min` to `max` (`0, 200k, 400k…`) and
+ * labels them with {@link humanizeSeries}, so labels share one unit and show
+ * just enough digits to tell ticks apart. Steps are round in the unit of
+ * the labels (`0h, 1h, 2h` rather than every 5,000 seconds); ranges too small
+ * to step through yield just their two ends.
+ *
+ * @param min Lower end of the data range.
+ * @param max Upper end of the data range.
+ * @param options Optional configuration overriding {@link HumanizeAxisTicksOptions}.
+ * @returns Tick values and labels.
+ * @throws {Error} When `min` or `max` is not finite or `tickCount` is not an
+ * integer of at least 2.
+ */
+export const humanizeAxisTicks = (min: number, max: number, options?: HumanizeAxisTicksOptions): AxisTicks => {
+  const { tickCount = 5, ...seriesOptions } = options ?? {};
+  if (!Number.isFinite(min) || !Number.isFinite(max)) {
+    throw new Error('Axis ticks require a finite min and max.');
+  }
+  if (!Number.isInteger(tickCount) || tickCount < 2) {
+    throw new Error('The tickCount option must be an integer of at least 2.');
+  }
+
+  const low = Math.min(min, max);
+  const high = Math.max(min, max);
+  if (low === high) {
+    return { values: [low], labels: humanizeSeries([low], seriesOptions) };
+  }
+
+  // Ticks of `unitValue` steps, scaled back to the base unit.
+  const ticksIn = (unitValue: number) => {
+    const step = niceNumber(niceNumber((high - low) / unitValue, false) / (tickCount - 1), true);
+    const first = Math.floor(low / unitValue / step);
+    const last = Math.ceil(high / unitValue / step);
+    // Multiply whole step counts and trim binary noise such as 0.30000000000000004.
+    const values = Array.from({ length: last - first + 1 }, (_, index) =>
+      Number(((first + index) * step * unitValue).toPrecision(12)),
+    );
+    return { step, values };
+  };
+
+  // Ticks in the base unit pick the display unit; ticks are then rounded in
+  // that unit, so labels such as `1h, 2h` match the tick values.
+  const { strategy = 'max', ...unitOptions } = seriesOptions;
+  const { options: resolved, scale } = createHumanizer(unitOptions);
+  const baseTicks = ticksIn(1);
+  const { unit } = scale(pickMagnitude(baseTicks.values, strategy) ?? 0);
+  const ticks = ticksIn(unit.value || 1);
+  // Ranges too small for the step to survive or to show in any fraction digits get their two ends.
+  if (!(baseTicks.step > 0) || !(ticks.step >= 10 ** -MAX_FRACTION_DIGITS)) {
+    return { values: [low, high], labels: humanizeSeries([low, high], seriesOptions) };
+  }
+  const fractionDigits = Math.max(0, -Math.floor(Math.log10(ticks.step) + 1e-9));
+
+  return {
+    values: ticks.values,
+    labels: formatInUnit(ticks.values, unitOptions, unit, resolved.useGrouping, fractionDigits),
+  };
+};
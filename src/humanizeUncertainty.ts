@@ -0,0 +1,187 @@
+import { createHumanizer, type HumanizeUnitOptions, humanizeUnit } from './humanizeUnit.js';
+import { roundInteger } from './rounding.js';
+import { Percent, SI } from './units.js';
+
+/**
+ * Asymmetric standard uncertainty: the magnitudes above and below the value.
+ */
+export type AsymmetricUncertainty = { plus: number; minus: number };
+
+/**
+ * How the uncertainty is written.
+ *
+ * - `plusMinus`: `12.3 ± 0.4 kV`, or `12.3 +0.4/−0.2 kV` when asymmetric.
+ * - `concise`: the uncertainty in units of the last digit, `1.234(5) mm`.
+ * - `relative`: the uncertainty as a percentage of the value, `12.3 kV ± 3.2%`.
+ */
+export type UncertaintyNotation = 'plusMinus' | 'concise' | 'relative';
+
+/**
+ * Configuration for `humanizeUncertainty`.
+ *
+ * `units`, `postfix`, `locale`, `useGrouping`, `unitSeparator` and
+ * `emptyValue` behave as in {@link HumanizeUnitOptions}, except that
+ * `unitSeparator` defaults to a space. All fields are optional—defaults match
+ * {@link DEFAULT_UNCERTAINTY_OPTIONS}.
+ */
+export type HumanizeUncertaintyOptions = Pick<
+  HumanizeUnitOptions,
+  'units' | 'postfix' | 'locale' | 'useGrouping' | 'unitSeparator' | 'emptyValue'
+> & {
+  /** How the uncertainty is written. Defaults to `plusMinus`. */
+  notation?: UncertaintyNotation;
+  /**
+   * Significant digits of the uncertainty. `auto` follows the Particle Data
+   * Group rule: two digits when its three leading digits are 100–354 or
+   * 950–999 (which round up to `10`), otherwise one. Defaults to `auto`.
+   */
+  uncertaintyDigits?: 1 | 2 | 'auto';
+};
+
+/**
+ * Defaults for {@link HumanizeUncertaintyOptions}.
+ */
+const DEFAULT_UNCERTAINTY_OPTIONS = {
+  units: SI,
+  postfix: '',
+  locale: 'en-US',
+  useGrouping: false,
+  unitSeparator: ' ',
+  emptyValue: '',
+  notation: 'plusMinus',
+  uncertaintyDigits: 'auto',
+} as const;
+
+const MINUS_SIGN = '−';
+
+/**
+ * Returns the decimal exponent of the leading digit of a positive number,
+ * correcting `Math.log10` results that land just beside an integer.
+ */
+const leadingExponent = (value: number) => {
+  const exponent = Math.floor(Math.log10(value));
+  const mantissa = value / 10 ** exponent;
+  return mantissa >= 10 ? exponent + 1 : mantissa < 1 ? exponent - 1 : exponent;
+};
+
+/**
+ * Returns the decimal exponent of the last digit kept when rounding an
+ * uncertainty to `digits` significant digits.
+ */
+const roundingExponent = (uncertainty: number, digits: 1 | 2 | 'auto') => {
+  const exponent = leadingExponent(uncertainty);
+  if (digits !== 'auto') {
+    return exponent - digits + 1;
+  }
+  const leadingDigits = roundInteger(uncertainty / 10 ** (exponent - 2), 'halfExpand');
+  // 950–999 round up to 1000 and keep two digits, like 100–354.
+  return leadingDigits <= 354 ? exponent - 1 : exponent;
+};
+
+/**
+ * Rounds `value` to a multiple of `10 ** exponent`.
+ */
+const roundAt = (value: number, exponent: number) =>
+  exponent < 0
+    ? roundInteger(value * 10 ** -exponent, 'halfExpand') / 10 ** -exponent
+    : roundInteger(value / 10 ** exponent, 'halfExpand') * 10 ** exponent;
+
+/**
+ * Formats a measured value with its standard uncertainty, such as
+ * `12.3 ± 0.4 kV` or `1.234(5) mm`.
+ *
+ * The uncertainty is rounded to one or two significant digits (see
+ * `uncertaintyDigits`) and the value to the same decimal place, so the
+ * precision follows the measurement rather than `significantDigits`. Both
+ * share one prefix, chosen for the larger of the value and the uncertainty as
+ * `humanizeUnit` would, so 5 V with an uncertainty of 2000 V reads
+ * `0.0 ± 2.0 kV`. Asymmetric uncertainties are rounded at the place
+ * of the smaller one. A zero uncertainty shows the value
+ * with three significant digits.
+ *
+ * When `value` or the uncertainty is `null`, `undefined`, or not finite, the
+ * `emptyValue` option is returned.
+ *
+ * @param value Measured value.
+ * @param uncertainty Standard uncertainty, or its upper and lower magnitudes.
+ * @param options Optional configuration overriding {@link HumanizeUncertaintyOptions}.
+ * @returns Value and uncertainty with a shared unit.
+ * @throws {Error} When an uncertainty is negative or the unit table is empty or
+ * not ordered from largest to smallest.
+ */
+export const humanizeUncertainty = (
+  value: number | null | undefined,
+  uncertainty: number | AsymmetricUncertainty | null | undefined,
+  options?: HumanizeUncertaintyOptions,
+) => {
+  const {
+    units = DEFAULT_UNCERTAINTY_OPTIONS.units,
+    postfix = DEFAULT_UNCERTAINTY_OPTIONS.postfix,
+    locale = DEFAULT_UNCERTAINTY_OPTIONS.locale,
+    useGrouping = DEFAULT_UNCERTAINTY_OPTIONS.useGrouping,
+    unitSeparator = DEFAULT_UNCERTAINTY_OPTIONS.unitSeparator,
+    emptyValue = DEFAULT_UNCERTAINTY_OPTIONS.emptyValue,
+    notation = DEFAULT_UNCERTAINTY_OPTIONS.notation,
+    uncertaintyDigits = DEFAULT_UNCERTAINTY_OPTIONS.uncertaintyDigits,
+  } = options ?? {};
+
+  if (value === null || value === undefined || uncertainty === null || uncertainty === undefined) {
+    return emptyValue;
+  }
+  const symmetric = typeof uncertainty === 'number';
+  const plus = symmetric ? uncertainty : uncertainty.plus;
+  const minus = symmetric ? uncertainty : uncertainty.minus;
+  if (!Number.isFinite(value) || !Number.isFinite(plus) || !Number.isFinite(minus)) {
+    return emptyValue;
+  }
+  if (plus < 0 || minus < 0) {
+    throw new Error('The uncertainty must not be negative.');
+  }
+
+  const { unit } = createHumanizer({ units }).scale(Math.max(Math.abs(value), plus, minus));
+  const scale = unit.value || 1;
+  const scaledValue = value / scale;
+  const scaledPlus = plus / scale;
+  const scaledMinus = minus / scale;
+
+  const reference = Math.min(scaledPlus, scaledMinus) || Math.max(scaledPlus, scaledMinus);
+  const exponent =
+    reference > 0
+      ? roundingExponent(reference, uncertaintyDigits)
+      : scaledValue === 0
+        ? 0
+        : leadingExponent(Math.abs(scaledValue)) - 2;
+  const fractionDigits = Math.max(0, -exponent);
+  const formatter = new Intl.NumberFormat(locale, {
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+    useGrouping,
+  });
+
+  const valueText = formatter.format(roundAt(scaledValue, exponent));
+  const label = unit.unit || postfix ? `${unitSeparator}${unit.unit}${postfix}` : '';
+  const roundedPlus = roundAt(scaledPlus, exponent);
+  const roundedMinus = roundAt(scaledMinus, exponent);
+
+  if (notation === 'concise') {
+    // Express the uncertainty in units of the last digit shown.
+    const integerFormatter = new Intl.NumberFormat(locale, { maximumFractionDigits: 0, useGrouping });
+    const digits = (rounded: number) => integerFormatter.format(rounded * 10 ** fractionDigits);
+    const concise = symmetric
+      ? `(${digits(roundedPlus)})`
+      : `(+${digits(roundedPlus)}/${MINUS_SIGN}${digits(roundedMinus)})`;
+    return `${valueText}${concise}${label}`;
+  }
+
+  if (notation === 'relative') {
+    const percent = (magnitude: number) =>
+      value === 0 ? '∞%' : humanizeUnit(magnitude / Math.abs(value), { units: Percent, significantDigits: 2, locale });
+    const relative = symmetric ? `± ${percent(plus)}` : `+${percent(plus)}/${MINUS_SIGN}${percent(minus)}`;
+    return `${valueText}${label} ${relative}`;
+  }
+
+  const absolute = symmetric
+    ? `± ${formatter.format(roundedPlus)}`
+    : `+${formatter.format(roundedPlus)}/${MINUS_SIGN}${formatter.format(roundedMinus)}`;
+  return `${valueText} ${absolute}${label}`;
+};
@@ -1,4 +1,85 @@
-import { SI, type UnitArray } from './units.js';
+import {
+  compareExactMagnitude,
+  divideExact,
+  type ExactDecimal,
+  exactFromThreshold,
+  parseExactDecimal,
+} from './exactDecimal.js';
+import { styleLiteralText, styleUnitText } from './outputStyle.js';
+import { roundToDigits } from './rounding.js';
+import { createUnitLabeler, getDefaultUnitSeparator, type UnitDisplay } from './unitNames.js';
+import { restrictUnits, SI, type Unit, type UnitArray, type UnitNames } from './units.js';
+
+/**
+ * Rounding applied to the displayed digits, named after the
+ * `Intl.NumberFormat` rounding modes.
+ *
+ * - `ceil` / `floor`: towards positive / negative infinity.
+ * - `trunc`: towards zero.
+ * - `halfExpand`: to nearest, ties away from zero.
+ * - `halfEven`: to nearest, ties to the even digit.
+ */
+export type RoundingMode = 'ceil' | 'floor' | 'trunc' | 'halfExpand' | 'halfEven';
+
+/**
+ * Values accepted by the formatters. `bigint` and decimal strings
+ * (`"18446744073709551616"`, `"1.5e21"`) are compared with the unit
+ * thresholds exactly and keep up to 15 significant digits; `null`,
+ * `undefined`, `NaN` and strings that are not decimal numbers yield the
+ * `emptyValue` option.
+ */
+export type HumanizeInput = number | bigint | string | null | undefined;
+
+/**
+ * Finite input after {@link normalizeInput}: a `number`, or an exact decimal
+ * for `bigint` and string input beyond the safe integer range.
+ */
+type FiniteInput = number | ExactDecimal;
+
+const MAX_SAFE_BIGINT = BigInt(Number.MAX_SAFE_INTEGER);
+
+/**
+ * Converts `bigint` and decimal-string input for formatting. Numbers and
+ * safe-integer `bigint`s take the `number` path; unparsable strings become
+ * `NaN`.
+ */
+const normalizeInput = (value: HumanizeInput): FiniteInput | null | undefined => {
+  if (typeof value === 'bigint') {
+    return value <= MAX_SAFE_BIGINT && value >= -MAX_SAFE_BIGINT ? Number(value) : { coefficient: value, exponent: 0 };
+  }
+  if (typeof value === 'string') {
+    return parseExactDecimal(value) ?? Number.NaN;
+  }
+  return value;
+};
+
+/**
+ * Digit grouping used when `useGrouping` is on.
+ *
+ * - `locale`: the grouping of the `locale` option.
+ * - `indian`: thousands, then groups of two digits (`12,34,567`).
+ */
+export type GroupingStyle = 'locale' | 'indian';
+
+/**
+ * When the sign of a value is shown.
+ *
+ * - `auto`: negative values only (`−5`, `5`).
+ * - `always`: every value, including zero (`+5`, `+0`), even negative zero.
+ * - `exceptZero`: positive and negative values, but not zero (`+5`, `0`).
+ * - `negative`: negative values only, and never for negative zero.
+ */
+export type SignDisplay = 'auto' | 'always' | 'exceptZero' | 'negative';
+
+/**
+ * Typographic target of formatted units.
+ *
+ * - `ascii`: plain ASCII notation (`m/s^2`, `N*m`, `us`).
+ * - `unicode`: superscripts, middle dots and the micro sign (`m/s²`, `N·m`, `µs`).
+ * - `html`: escaped HTML with `<sup>` exponents (`m/s<sup>2</sup>`).
+ * - `latex`: math-mode LaTeX with the unit in `\mathrm` (`\mathrm{m/s^{2}}`).
+ */
+export type OutputStyle = 'ascii' | 'unicode' | 'html' | 'latex';
 
 /**
  * Configuration for `humanizeUnit`.
@@ -12,6 +93,22 @@ export type HumanizeUnitOptions = {
    * {@link Count}.
    */
   units?: UnitArray;
+  /**
+   * Symbol of the smallest unit to use, with or without `postfix` (`ms`,
+   * `k`, `kB`). Smaller values are shown in this unit (`0.5ms`).
+   */
+  minUnit?: string;
+  /**
+   * Symbol of the largest unit to use, with or without `postfix` (`TB`).
+   * Larger values are shown in this unit and `useGrouping` defaults to `true`,
+   * so 1.2 PB reads `1,200TB`.
+   */
+  maxUnit?: string;
+  /**
+   * Symbols of units never to use, such as `['w']` to skip weeks in
+   * {@link Time}.
+   */
+  excludeUnits?: readonly string[];
   /**
    * Text appended after the unit. Useful when using base prefix arrays
    * like {@link SI} or {@link Binary} to separate the prefix from the unit
@@ -20,28 +117,77 @@ export type HumanizeUnitOptions = {
   postfix?: string;
   /**
    * Upper bound for significant digits reported by `Intl.NumberFormat`.
+   * Values above 15, the digits a `number` holds, are treated as 15.
    * Defaults to `3`.
    */
   significantDigits?: number;
   /**
-   * Lower bound for significant digits reported by `Intl.NumberFormat`.
-   * Defaults to `1`.
+   * Lower bound for significant digits reported by `Intl.NumberFormat`,
+   * treated as 15 when larger. Defaults to `1`.
    */
   minimumSignificantDigits?: number;
+  /**
+   * Fixed number of fraction digits (e.g. `2` for `1.50MB`). When set it
+   * replaces `significantDigits` and `minimumSignificantDigits`.
+   */
+  fractionDigits?: number;
+  /**
+   * How the displayed digits are rounded. `floor` never overstates a value
+   * (`1.99GB` left, not `2GB`), `ceil` never understates it. Defaults to
+   * `halfExpand`.
+   */
+  roundingMode?: RoundingMode;
   /**
    * BCP 47 locale string passed to `Intl.NumberFormat`. Defaults to `en-US`.
    */
   locale?: string;
   /**
    * Whether digit grouping separators (e.g. `1,000`) should be used.
-   * Defaults to `false`.
+   * Defaults to `false`, or to `true` when `maxUnit` is set.
    */
   useGrouping?: boolean;
+  /**
+   * How digits are grouped when `useGrouping` is on: by the rules of
+   * `locale` (`1,234,567`), or in the Indian style (`12,34,567`). Defaults
+   * to `locale`.
+   */
+  groupingStyle?: GroupingStyle;
+  /**
+   * When the sign is shown. Setting it also writes the minus sign as `−`
+   * (U+2212) rather than a hyphen. Unset, negative values keep the locale's
+   * sign (`-5`).
+   */
+  signDisplay?: SignDisplay;
   /**
    * Text inserted between the formatted value and the unit when the
-   * selected unit is non-empty. Defaults to an empty string.
+   * selected unit is non-empty. Defaults to an empty string for `narrow`
+   * display and to the locale's separator for `short` and `long` display.
    */
   unitSeparator?: string;
+  /**
+   * How the unit is displayed: table symbols (`narrow`), localized symbols
+   * (`short`) or localized, pluralized names (`long`). Names come from the
+   * unit locale pack registered for `locale`. Defaults to `narrow`.
+   */
+  unitDisplay?: UnitDisplay;
+  /**
+   * Name of the postfix in unit locale packs (e.g. `byte`), or its long-form
+   * names, used for `short` and `long` display.
+   */
+  postfixName?: string | UnitNames;
+  /**
+   * Typographic target of the number and unit: exponents, products and the
+   * micro sign in the notation of the style, with HTML or LaTeX escaping.
+   * Unset, units are written as defined in the table and `postfix`.
+   * `emptyValue` and non-finite values are never restyled.
+   */
+  outputStyle?: OutputStyle;
+  /**
+   * Whether to follow the SI Brochure and put a no-break space between the
+   * number and every unit, including `%` and `°C`, except the plane-angle
+   * symbols `°`, `′` and `″`. Replaces `unitSeparator`. Defaults to `false`.
+   */
+  siSpacing?: boolean;
   /**
    * Output value used when the input is `null`, `undefined`, or `NaN`.
    * Defaults to an empty string.
@@ -49,17 +195,32 @@ export type HumanizeUnitOptions = {
   emptyValue?: string;
 };
 
+/**
+ * Most significant digits shown: the digits a `number` reliably holds, which
+ * also bounds the scaled value of exact `bigint` and string input.
+ */
+const MAX_SIGNIFICANT_DIGITS = 15;
+
 /**
  * Library-wide defaults for {@link HumanizeUnitOptions}.
  */
-const DEFAULT_OPTIONS: Required<HumanizeUnitOptions> = {
+const DEFAULT_OPTIONS: Required<
+  Omit<
+    HumanizeUnitOptions,
+    'postfixName' | 'fractionDigits' | 'signDisplay' | 'outputStyle' | 'minUnit' | 'maxUnit' | 'excludeUnits'
+  >
+> = {
   units: SI,
   postfix: '',
   significantDigits: 3,
   minimumSignificantDigits: 1,
+  roundingMode: 'halfExpand',
   locale: 'en-US',
   useGrouping: false,
+  groupingStyle: 'locale',
   unitSeparator: '',
+  unitDisplay: 'narrow',
+  siSpacing: false,
   emptyValue: '',
 };
 
@@ -80,56 +241,845 @@ const selectUnit = (value: number, units: UnitArray) => {
 };
 
 /**
- * Formats a numeric value (or nullable input) into a human-readable string
- * using the provided unit table and formatting options.
- *
- * When `value` is `null`, `undefined`, or `NaN`, the `emptyValue` option is
- * returned. Infinite values are stringified as-is.
+ * Chooses the unit for an exact decimal by comparing it with each threshold
+ * exactly.
+ */
+const selectExactUnit = (value: ExactDecimal, units: UnitArray) =>
+  units.find((unit) => compareExactMagnitude(value, exactFromThreshold(unit.value)) >= 0) ?? selectUnit(0, units);
+
+const isZero = (value: FiniteInput) => (typeof value === 'number' ? value === 0 : value.coefficient === 0n);
+
+/**
+ * Divides a value by a unit threshold.
+ */
+const divideByUnit = (value: FiniteInput, unit: Unit) =>
+  typeof value === 'number'
+    ? /* c8 ignore next -- fallback to 1 if the threshold is 0 or falsy */
+      value / (unit.value || 1)
+    : divideExact(value, exactFromThreshold(unit.value));
+
+/**
+ * Chooses the unit for a value and rounds the scaled value as displayed.
+ * When rounding reaches the next larger unit, that unit is used instead
+ * (`999,999` gives `1M`, not `1000k`).
  *
- * @param value Raw numeric input to format.
- * @param options Optional configuration overriding {@link HumanizeUnitOptions}.
- * @returns Human-readable number and unit.
+ * @param value Value to scale.
+ * @param options Resolved options.
+ * @param selectionValue Value used to choose the unit. Defaults to `value`,
+ * or `1` for zero.
+ */
+const scaleValue = (
+  value: FiniteInput,
+  options: ResolvedHumanizeUnitOptions,
+  selectionValue: FiniteInput = isZero(value) ? 1 : value,
+) => {
+  const { units } = options;
+  let targetUnit =
+    typeof selectionValue === 'number' ? selectUnit(selectionValue, units) : selectExactUnit(selectionValue, units);
+  let scaledValue = divideByUnit(value, targetUnit);
+  // Round as displayed, so that unit promotion sees the number the reader sees.
+  let roundedValue = roundToDigits(scaledValue, options);
+
+  const largerUnit = units[units.indexOf(targetUnit) - 1];
+  // The tolerance absorbs products such as 1000 * 1e-6 landing just below 1e-3.
+  if (largerUnit && Math.abs(roundedValue) * targetUnit.value >= largerUnit.value * (1 - 1e-12)) {
+    targetUnit = largerUnit;
+    scaledValue = divideByUnit(value, targetUnit);
+    roundedValue = roundToDigits(scaledValue, options);
+  }
+  // `negative` is formatted as `auto`, and `Intl` writes `-0` as `−0` even for
+  // `always`, so zero, including values rounding to it, is unsigned here.
+  if ((options.signDisplay === 'negative' || options.signDisplay === 'always') && roundedValue === 0) {
+    roundedValue = 0;
+  }
+
+  return { targetUnit, scaledValue, roundedValue };
+};
+
+/**
+ * {@link HumanizeUnitOptions} with every default applied. `units` is already
+ * restricted to `minUnit`, `maxUnit` and `excludeUnits`.
+ */
+export type ResolvedHumanizeUnitOptions = Readonly<
+  Required<
+    Omit<
+      HumanizeUnitOptions,
+      'postfixName' | 'fractionDigits' | 'signDisplay' | 'outputStyle' | 'minUnit' | 'maxUnit' | 'excludeUnits'
+    >
+  > &
+    Pick<HumanizeUnitOptions, 'postfixName' | 'fractionDigits' | 'signDisplay' | 'outputStyle'>
+>;
+
+/**
+ * Applies {@link DEFAULT_OPTIONS} to every option that is missing or
+ * `undefined`.
  */
-export const humanizeUnit = (value: number | null | undefined, options?: HumanizeUnitOptions) => {
+const resolveOptions = (options: HumanizeUnitOptions | undefined): ResolvedHumanizeUnitOptions => {
   const {
     emptyValue = DEFAULT_OPTIONS.emptyValue,
     units = DEFAULT_OPTIONS.units,
+    minUnit,
+    maxUnit,
+    excludeUnits,
     postfix = DEFAULT_OPTIONS.postfix,
     locale = DEFAULT_OPTIONS.locale,
     significantDigits = DEFAULT_OPTIONS.significantDigits,
     minimumSignificantDigits = DEFAULT_OPTIONS.minimumSignificantDigits,
-    useGrouping = DEFAULT_OPTIONS.useGrouping,
-    unitSeparator = DEFAULT_OPTIONS.unitSeparator,
-  } = options ?? DEFAULT_OPTIONS;
+    fractionDigits,
+    roundingMode = DEFAULT_OPTIONS.roundingMode,
+    useGrouping = maxUnit === undefined ? DEFAULT_OPTIONS.useGrouping : true,
+    groupingStyle = DEFAULT_OPTIONS.groupingStyle,
+    signDisplay,
+    unitDisplay = DEFAULT_OPTIONS.unitDisplay,
+    unitSeparator = getDefaultUnitSeparator(locale, unitDisplay),
+    postfixName,
+    outputStyle,
+    siSpacing = DEFAULT_OPTIONS.siSpacing,
+  } = options ?? {};
+
+  return {
+    emptyValue,
+    units: restrictUnits(units, { minUnit, maxUnit, excludeUnits, postfix }),
+    postfix,
+    locale,
+    significantDigits: Math.min(significantDigits, MAX_SIGNIFICANT_DIGITS),
+    minimumSignificantDigits: Math.min(minimumSignificantDigits, MAX_SIGNIFICANT_DIGITS),
+    fractionDigits,
+    roundingMode,
+    useGrouping,
+    groupingStyle,
+    signDisplay,
+    unitSeparator,
+    unitDisplay,
+    postfixName,
+    outputStyle,
+    siSpacing,
+  };
+};
+
+/**
+ * Everything needed to format finite values: resolved options, the number
+ * formatter and, for `short` and `long` display, the unit labeler.
+ */
+type FormatContext = {
+  options: ResolvedHumanizeUnitOptions;
+  formatter: Intl.NumberFormat;
+  labelUnit: ReturnType<typeof createUnitLabeler> | undefined;
+};
+
+/**
+ * Returns a locale with Indian digit grouping: the Indian variant of `locale`
+ * when the runtime has one (`hi`, `en-IN`), otherwise `en-IN`.
+ */
+const getIndianGroupingLocale = (locale: string) => {
+  const regional = new Intl.Locale(locale, { region: 'IN' }).toString();
+  const groups = new Intl.NumberFormat(regional).formatToParts(1_234_567).filter((part) => part.type === 'group');
+  return groups.length === 2 ? regional : 'en-IN';
+};
+
+/**
+ * Builds the `Intl.NumberFormat` used to format scaled values.
+ */
+const createNumberFormat = (options: ResolvedHumanizeUnitOptions) =>
+  new Intl.NumberFormat(options.groupingStyle === 'indian' ? getIndianGroupingLocale(options.locale) : options.locale, {
+    ...(options.fractionDigits === undefined
+      ? {
+          maximumSignificantDigits: options.significantDigits,
+          minimumSignificantDigits: options.minimumSignificantDigits,
+        }
+      : { minimumFractionDigits: options.fractionDigits, maximumFractionDigits: options.fractionDigits }),
+    useGrouping: options.useGrouping,
+    // Runtimes before Node 20 reject `negative`; values that round to zero
+    // are already unsigned by `scaleValue`, so `auto` gives the same output.
+    signDisplay: options.signDisplay === 'negative' ? 'auto' : options.signDisplay,
+  });
+
+const MINUS_SIGN = '\u2212';
+const NO_BREAK_SPACE = '\u00a0';
+const MICRO_SIGN = 'µ';
+
+/**
+ * Returns the text of a number part: `−` for the minus sign when
+ * `signDisplay` is set, rendered for `outputStyle`.
+ */
+const renderNumberPart = (
+  part: { type: string; value: string },
+  { signDisplay, outputStyle }: ResolvedHumanizeUnitOptions,
+) => {
+  const value = signDisplay !== undefined && part.type === 'minusSign' ? MINUS_SIGN : part.value;
+  return outputStyle ? styleLiteralText(value, outputStyle) : value;
+};
+
+/**
+ * Whether numbers must be formatted part by part rather than with `format`.
+ */
+const needsNumberParts = ({ signDisplay, outputStyle }: ResolvedHumanizeUnitOptions) =>
+  signDisplay !== undefined || outputStyle === 'latex';
+
+/**
+ * Formats the number of a value, honouring `signDisplay` and `outputStyle`.
+ */
+const formatNumber = (value: number, { options, formatter }: FormatContext) =>
+  needsNumberParts(options)
+    ? formatter
+        .formatToParts(value)
+        .map((part) => renderNumberPart(part, options))
+        .join('')
+    : formatter.format(value);
 
+/**
+ * Returns the output for `null`, `undefined` and non-finite values, or
+ * `undefined` when `value` is a finite number that needs formatting.
+ */
+const formatNonFinite = (value: FiniteInput | null | undefined, emptyValue: string) => {
   if (value === null || value === undefined) {
     return emptyValue;
   }
 
-  if (!Number.isFinite(value)) {
+  if (typeof value === 'number' && !Number.isFinite(value)) {
     if (Number.isNaN(value)) {
       return emptyValue;
     }
     return String(value);
   }
 
-  const targetUnit = selectUnit(value === 0 ? 1 : value, units);
-  /* c8 ignore next -- fallback to 1 if value is 0 or falsy */
-  const divider = targetUnit.value || 1;
+  return;
+};
+
+/**
+ * Builds the {@link FormatContext} for resolved options.
+ */
+const createFormatContext = (options: ResolvedHumanizeUnitOptions): FormatContext => ({
+  options,
+  formatter: createNumberFormat(options),
+  labelUnit: options.unitDisplay === 'narrow' ? undefined : createUnitLabeler(options),
+});
+
+/**
+ * Plane-angle symbols, which the SI Brochure writes without a space.
+ */
+const ANGLE_SYMBOL = /^[°′″](?![A-Za-z])/;
+
+/**
+ * Returns the parts following the number for a unit: the separator, then the
+ * unit prefix and postfix or the localized label, rendered for `outputStyle`.
+ */
+const formatLabelParts = (targetUnit: Unit, scaledValue: number, { options, labelUnit }: FormatContext) => {
+  const { outputStyle, siSpacing } = options;
+  const unitParts: HumanizeUnitPart[] = labelUnit
+    ? labelUnit(targetUnit, scaledValue)
+    : [
+        ...(targetUnit.unit ? [{ type: 'prefix' as const, value: targetUnit.unit }] : []),
+        ...(options.postfix ? [{ type: 'postfix' as const, value: options.postfix }] : []),
+      ];
+  // Every display writes the micro prefix as `µ`, which `outputStyle` renders in its own notation.
+  const labelParts =
+    outputStyle && targetUnit.name === 'micro'
+      ? unitParts.map((part) => (part.type === 'prefix' ? { ...part, value: MICRO_SIGN } : part))
+      : unitParts;
+  if (labelParts.length === 0) {
+    return labelParts;
+  }
 
-  const formatter = new Intl.NumberFormat(locale, {
-    maximumSignificantDigits: significantDigits,
-    minimumSignificantDigits: minimumSignificantDigits,
-    useGrouping: useGrouping,
+  const separator = siSpacing
+    ? ANGLE_SYMBOL.test(labelParts.map((part) => part.value).join(''))
+      ? ''
+      : NO_BREAK_SPACE
+    : options.unitSeparator;
+  const parts: HumanizeUnitPart[] = separator
+    ? [{ type: 'separator', value: outputStyle ? styleLiteralText(separator, outputStyle) : separator }]
+    : [];
+  if (!outputStyle) {
+    parts.push(...labelParts);
+    return parts;
+  }
+
+  const styledParts = labelParts.map((part) => ({ type: part.type, value: styleUnitText(part.value, outputStyle) }));
+  if (outputStyle === 'latex') {
+    parts.push({ type: 'literal', value: '\\mathrm{' }, ...styledParts, { type: 'literal', value: '}' });
+  } else {
+    parts.push(...styledParts);
+  }
+  return parts;
+};
+
+/**
+ * Returns the text following the number for a unit, including the
+ * separator.
+ */
+const formatLabel = (targetUnit: Unit, scaledValue: number, context: FormatContext) => {
+  const { options, labelUnit } = context;
+  if (options.outputStyle || options.siSpacing) {
+    return formatLabelParts(targetUnit, scaledValue, context)
+      .map((part) => part.value)
+      .join('');
+  }
+
+  if (labelUnit) {
+    const label = labelUnit(targetUnit, scaledValue)
+      .map((part) => part.value)
+      .join('');
+    return label ? `${options.unitSeparator}${label}` : '';
+  }
+
+  const separator = targetUnit.unit || options.postfix ? options.unitSeparator : '';
+
+  return `${separator}${targetUnit.unit}${options.postfix}`;
+};
+
+/**
+ * Formats a finite value with a prebuilt {@link FormatContext}.
+ */
+const formatFinite = (value: FiniteInput, context: FormatContext) => {
+  const { targetUnit, roundedValue } = scaleValue(value, context.options);
+
+  return `${formatNumber(roundedValue, context)}${formatLabel(targetUnit, roundedValue, context)}`;
+};
+
+/**
+ * `Intl.NumberFormat` with the ES2023 range methods, which older runtimes lack.
+ */
+type RangeNumberFormat = Intl.NumberFormat & {
+  formatRange?: (start: number, end: number) => string;
+  formatRangeToParts?: (start: number, end: number) => Array<{ type: string; value: string; source: string }>;
+};
+
+/**
+ * Formats two numbers as a range, using `formatRange` where available. Ends
+ * that round to the same text yield the approximate form (`~1.5`).
+ */
+const formatNumberRange = (start: number, end: number, context: FormatContext) => {
+  const formatter: RangeNumberFormat = context.formatter;
+  if (formatter.formatRangeToParts && needsNumberParts(context.options)) {
+    return formatter
+      .formatRangeToParts(start, end)
+      .map((part) => renderNumberPart(part, context.options))
+      .join('');
+  }
+  if (formatter.formatRange) {
+    return formatter.formatRange(start, end);
+  }
+  const startText = formatNumber(start, context);
+  const endText = formatNumber(end, context);
+  if (startText === endText) {
+    return `~${startText}`;
+  }
+  // Like CLDR, space the dash when a sign would otherwise touch it (`-1 – 2`).
+  const isSigned = (value: number) =>
+    formatter.formatToParts(value).some((part) => part.type === 'minusSign' || part.type === 'plusSign');
+  return `${startText}${isSigned(start) || isSigned(end) ? ' – ' : '–'}${endText}`;
+};
+
+const WHITESPACE = /\s/;
+
+/**
+ * Returns the locale's range separator, padded with spaces to sit between
+ * two values that carry their own units (`950kB – 1.2MB`).
+ */
+const getRangeSeparator = (formatter: RangeNumberFormat) => {
+  const separator =
+    formatter.formatRangeToParts?.(1, 2).find((part) => part.source === 'shared' && part.type === 'literal')?.value ??
+    '–';
+  return WHITESPACE.test(separator) ? separator : ` ${separator} `;
+};
+
+/**
+ * Formats two finite values as a range with a prebuilt {@link FormatContext}.
+ * The unit is written once when both ends share it.
+ */
+const formatFiniteRange = (start: FiniteInput, end: FiniteInput, context: FormatContext) => {
+  const { options } = context;
+  // Zero takes the unit of the other end (`0–3GB` rather than `0 – 3GB`).
+  const startScaled = scaleValue(start, options, isZero(start) ? (isZero(end) ? 1 : end) : start);
+  const endScaled = scaleValue(end, options, isZero(end) ? (isZero(start) ? 1 : start) : end);
+
+  if (startScaled.targetUnit !== endScaled.targetUnit) {
+    return `${formatFinite(start, context)}${getRangeSeparator(context.formatter)}${formatFinite(end, context)}`;
+  }
+
+  const numbers = formatNumberRange(startScaled.roundedValue, endScaled.roundedValue, context);
+  return `${numbers}${formatLabel(endScaled.targetUnit, endScaled.roundedValue, context)}`;
+};
+
+/**
+ * Kind of a {@link HumanizeUnitPart}.
+ *
+ * - `sign`, `integer`, `decimal`, `fraction`, `group`: number parts as
+ *   reported by `Intl.NumberFormat.formatToParts`.
+ * - `separator`: the `unitSeparator` option.
+ * - `prefix`: the selected unit symbol (e.g. `M`).
+ * - `postfix`: the `postfix` option (e.g. `B`).
+ * - `unit`: the long-form unit name (e.g. `megabytes`) for `long` display.
+ * - `literal`: any other text, such as `emptyValue`, `Infinity` or the
+ *   `\mathrm{` wrapping of `latex` output.
+ */
+export type HumanizeUnitPartType =
+  | 'sign'
+  | 'integer'
+  | 'decimal'
+  | 'fraction'
+  | 'group'
+  | 'separator'
+  | 'prefix'
+  | 'postfix'
+  | 'unit'
+  | 'literal';
+
+/**
+ * Single typed segment of a humanized value.
+ */
+export type HumanizeUnitPart = {
+  type: HumanizeUnitPartType;
+  value: string;
+};
+
+/**
+ * Structured output of `humanizeUnitToParts`. Joining the `value` of every
+ * part yields exactly what `humanizeUnit` returns.
+ */
+export type HumanizeUnitParts = {
+  parts: HumanizeUnitPart[];
+  /** Unit entry chosen from the table, or `undefined` for empty and non-finite input. */
+  unit: Unit | undefined;
+  /** Value divided by the unit threshold, or `NaN` for empty input. */
+  scaledValue: number;
+  /** The original input. */
+  value: HumanizeInput;
+};
+
+const NUMBER_PART_TYPES: Partial<Record<Intl.NumberFormatPartTypes, HumanizeUnitPartType>> = {
+  minusSign: 'sign',
+  plusSign: 'sign',
+  integer: 'integer',
+  decimal: 'decimal',
+  fraction: 'fraction',
+  group: 'group',
+};
+
+/**
+ * Returns the parts for `null`, `undefined` and non-finite values, or
+ * `undefined` when `value` is a finite number that needs formatting.
+ */
+const formatNonFiniteToParts = (input: FiniteInput | null | undefined, value: HumanizeInput, emptyValue: string) => {
+  const text = formatNonFinite(input, emptyValue);
+  if (text === undefined) {
+    return;
+  }
+
+  const parts: HumanizeUnitPart[] = text ? [{ type: 'literal', value: text }] : [];
+  const scaledValue = typeof input === 'number' ? input : Number.NaN;
+  return { parts, unit: undefined, scaledValue, value };
+};
+
+/**
+ * Structured counterpart of {@link formatFinite}.
+ */
+const formatFiniteToParts = (input: FiniteInput, value: HumanizeInput, context: FormatContext): HumanizeUnitParts => {
+  const { options, formatter } = context;
+  const { targetUnit, scaledValue, roundedValue } = scaleValue(input, options);
+
+  const parts: HumanizeUnitPart[] = formatter
+    .formatToParts(roundedValue)
+    .map((part) => ({ type: NUMBER_PART_TYPES[part.type] ?? 'literal', value: renderNumberPart(part, options) }));
+  parts.push(...formatLabelParts(targetUnit, roundedValue, context));
+
+  return { parts, unit: targetUnit, scaledValue, value };
+};
+
+/**
+ * Tables that already passed {@link validateUnits}.
+ */
+const validatedUnits = new WeakSet<UnitArray>();
+
+/**
+ * Ensures a unit table is non-empty and ordered from largest to smallest.
+ * Each table is checked once.
+ *
+ * @throws {Error} When the table is empty or out of order.
+ */
+const validateUnits = (units: UnitArray) => {
+  if (validatedUnits.has(units)) {
+    return;
+  }
+  if (units.length === 0) {
+    throw new Error('humanizeUnit requires at least one unit definition.');
+  }
+
+  units.forEach((unit, index) => {
+    const previous = units[index - 1];
+    if (previous && previous.value < unit.value) {
+      throw new Error(`Unit "${unit.unit}" (${unit.value}) must not be larger than the preceding "${previous.unit}".`);
+    }
   });
+  validatedUnits.add(units);
+};
+
+/**
+ * Formats a numeric value (or nullable input) into a human-readable string
+ * using the provided unit table and formatting options.
+ *
+ * When `value` is `null`, `undefined`, or `NaN`, the `emptyValue` option is
+ * returned. Infinite values are stringified as-is. `bigint` and decimal
+ * strings beyond the safe integer range are compared with the thresholds
+ * exactly, so `2n ** 70n` bytes is exactly `1ZiB`; the scaled value keeps up
+ * to 15 significant digits.
+ *
+ * Each call builds a new `Intl.NumberFormat`; use {@link createHumanizer}
+ * when formatting many values with the same options.
+ *
+ * @param value Raw numeric input to format.
+ * @param options Optional configuration overriding {@link HumanizeUnitOptions}.
+ * @returns Human-readable number and unit.
+ * @throws {Error} When the unit table is empty or not ordered from largest to
+ * smallest.
+ */
+export const humanizeUnit = (value: HumanizeInput, options?: HumanizeUnitOptions) => {
+  const resolved = resolveOptions(options);
+  validateUnits(resolved.units);
+
+  const input = normalizeInput(value);
+  const nonFinite = formatNonFinite(input, resolved.emptyValue);
+  if (nonFinite !== undefined) {
+    return nonFinite;
+  }
 
-  const formattedNumber = formatter.format(value / divider);
-  const separator = targetUnit.unit || postfix ? unitSeparator : '';
+  return formatFinite(input as FiniteInput, createFormatContext(resolved));
+};
+
+/**
+ * Formats a value like {@link humanizeUnit} but returns typed parts, so the
+ * number, unit prefix and postfix can be styled separately.
+ *
+ * @param value Raw numeric input to format.
+ * @param options Optional configuration overriding {@link HumanizeUnitOptions}.
+ * @returns Typed parts plus the selected unit and scaled value.
+ */
+export const humanizeUnitToParts = (value: HumanizeInput, options?: HumanizeUnitOptions): HumanizeUnitParts => {
+  const resolved = resolveOptions(options);
+  validateUnits(resolved.units);
+
+  const input = normalizeInput(value);
+  return (
+    formatNonFiniteToParts(input, value, resolved.emptyValue) ??
+    formatFiniteToParts(input as FiniteInput, value, createFormatContext(resolved))
+  );
+};
+
+/**
+ * Formats a range with a prebuilt {@link FormatContext}. Empty ends yield
+ * `emptyValue`; infinite ends are written out with the range separator.
+ */
+const formatRange = (startValue: HumanizeInput, endValue: HumanizeInput, context: FormatContext) => {
+  const { emptyValue } = context.options;
+  const start = normalizeInput(startValue);
+  const end = normalizeInput(endValue);
+  const startText = formatNonFinite(start, emptyValue);
+  const endText = formatNonFinite(end, emptyValue);
+  if (startText === undefined && endText === undefined) {
+    return formatFiniteRange(start as FiniteInput, end as FiniteInput, context);
+  }
+  if (
+    start === null ||
+    start === undefined ||
+    end === null ||
+    end === undefined ||
+    (typeof start === 'number' && Number.isNaN(start)) ||
+    (typeof end === 'number' && Number.isNaN(end))
+  ) {
+    return emptyValue;
+  }
+  return `${startText ?? formatFinite(start, context)}${getRangeSeparator(context.formatter)}${endText ?? formatFinite(end, context)}`;
+};
+
+/**
+ * Precompiled formatter returned by {@link createHumanizer}.
+ */
+export type Humanizer = {
+  /** Options with every default applied. */
+  readonly options: ResolvedHumanizeUnitOptions;
+  /** Formats a value exactly like {@link humanizeUnit} with the same options. */
+  format: (value: HumanizeInput) => string;
+  /** Formats a value exactly like {@link humanizeUnitToParts} with the same options. */
+  formatToParts: (value: HumanizeInput) => HumanizeUnitParts;
+  /** Formats a range exactly like {@link humanizeUnitRange} with the same options. */
+  formatRange: (start: HumanizeInput, end: HumanizeInput) => string;
+  /**
+   * Returns the unit `format` picks for a finite value, including promotion
+   * when rounding reaches the next unit, and the value scaled to it and
+   * rounded as displayed.
+   */
+  scale: (value: number) => { unit: Unit; value: number };
+};
+
+/**
+ * Resolves options, validates the unit table and builds the
+ * `Intl.NumberFormat` once, returning a formatter suited to hot loops such as
+ * table cells or log lines.
+ *
+ * @param options Optional configuration overriding {@link HumanizeUnitOptions}.
+ * @returns Reusable {@link Humanizer}.
+ * @throws {Error} When the unit table is empty or not ordered from largest to
+ * smallest.
+ */
+export const createHumanizer = (options?: HumanizeUnitOptions): Humanizer => {
+  const resolved = resolveOptions(options);
+  validateUnits(resolved.units);
+  const context = createFormatContext(resolved);
+
+  return {
+    options: resolved,
+    format: (value) => {
+      const input = normalizeInput(value);
+      return formatNonFinite(input, resolved.emptyValue) ?? formatFinite(input as FiniteInput, context);
+    },
+    formatToParts: (value) => {
+      const input = normalizeInput(value);
+      return (
+        formatNonFiniteToParts(input, value, resolved.emptyValue) ??
+        formatFiniteToParts(input as FiniteInput, value, context)
+      );
+    },
+    formatRange: (start, end) => formatRange(start, end, context),
+    scale: (value) => {
+      const { targetUnit, roundedValue } = scaleValue(value, resolved);
+      return { unit: targetUnit, value: roundedValue };
+    },
+  };
+};
+
+/**
+ * Formats two values as a range such as `1.5–3GB` or `10ms – 2s`.
+ *
+ * When both ends select the same unit, the unit is written once after a
+ * locale-correct number range from `Intl.NumberFormat.formatRange`; ends that
+ * round to the same text yield the approximate form (`~1.5GB`). Otherwise
+ * both ends keep their own unit. When either end is `null`, `undefined`, or
+ * `NaN`, the `emptyValue` option is returned.
+ *
+ * @param start Raw numeric start of the range.
+ * @param end Raw numeric end of the range.
+ * @param options Optional configuration overriding {@link HumanizeUnitOptions}.
+ * @returns Human-readable range.
+ * @throws {Error} When the unit table is empty or not ordered from largest to
+ * smallest.
+ */
+export const humanizeUnitRange = (start: HumanizeInput, end: HumanizeInput, options?: HumanizeUnitOptions) =>
+  createHumanizer(options).formatRange(start, end);
+
+/**
+ * Configuration for `parseUnit`. Shares the unit table, postfix, locale and
+ * separator semantics of {@link HumanizeUnitOptions}.
+ */
+export type ParseUnitOptions = Pick<HumanizeUnitOptions, 'units' | 'postfix' | 'locale' | 'unitSeparator'>;
+
+/**
+ * Reason reported when `parseUnit` cannot interpret its input.
+ *
+ * - `empty`: the input is `null`, `undefined` or only whitespace.
+ * - `invalid-number`: the input does not start with a number in the locale.
+ * - `invalid-grouping`: the digit groups of the number do not match the
+ *   locale's grouping (`1,5` or `1,00k` in `en-US`).
+ * - `unknown-unit`: the text after the number matches no unit in the table.
+ */
+export type ParseUnitErrorCode = 'empty' | 'invalid-number' | 'invalid-grouping' | 'unknown-unit';
+
+/**
+ * Describes why `parseUnit` rejected its input.
+ */
+export type ParseUnitError = {
+  code: ParseUnitErrorCode;
+  /** Human-readable explanation, suitable for form validation messages. */
+  message: string;
+  /** The original input text. */
+  input: string;
+};
+
+/**
+ * Outcome of `parseUnit`: either the base-unit value and the matched unit, or
+ * a {@link ParseUnitError}.
+ */
+export type ParseUnitResult =
+  | { ok: true; value: number; unit: Unit | undefined }
+  | { ok: false; error: ParseUnitError };
+
+const SIGN_CHARACTERS = new Set(['+', '-', '\u2212']);
+const SPACE_CHARACTERS = new Set([' ', '\u00a0', '\u202f']);
+
+/**
+ * Looks up the group and decimal separators used by `locale`, and the sizes
+ * of its digit groups: `primary` next to the decimal separator, `secondary`
+ * for the groups before it (`3` and `2` for `12,34,567` in `en-IN`).
+ */
+const getLocaleSeparators = (locale: string) => {
+  const parts = new Intl.NumberFormat(locale).formatToParts(1_234_567_890.5);
+  const group = parts.find((part) => part.type === 'group')?.value ?? ',';
+  const decimal = parts.find((part) => part.type === 'decimal')?.value ?? '.';
+  const integers = parts.filter((part) => part.type === 'integer');
+  const primary = integers.length > 1 ? (integers[integers.length - 1] as Intl.NumberFormatPart).value.length : 3;
+  const secondary =
+    integers.length > 2 ? (integers[integers.length - 2] as Intl.NumberFormatPart).value.length : primary;
+  return { group, decimal, primary, secondary };
+};
+
+/**
+ * Reads a locale-formatted number from the start of `text`. Group separators
+ * must split the integer digits into the locale's group sizes, so `1,5` is
+ * not read as `15` in `en-US`.
+ *
+ * @returns The parsed number, the index of the first unread character and
+ * whether its digit groups match the locale, or `undefined` when `text` does
+ * not start with a number.
+ */
+const readNumber = (text: string, locale: string) => {
+  const { group, decimal, primary, secondary } = getLocaleSeparators(locale);
+  const spaceGroup = SPACE_CHARACTERS.has(group);
+  let index = 0;
+  let normalized = '';
+
+  const first = text[0];
+  if (first !== undefined && SIGN_CHARACTERS.has(first)) {
+    normalized = first === '+' ? '' : '-';
+    index = 1;
+  }
+
+  let digits = 0;
+  let seenDecimal = false;
+  // Sizes of the integer digit groups closed by a group separator so far.
+  const groups: number[] = [];
+  let groupDigits = 0;
+  for (; index < text.length; index++) {
+    const character = text[index] as string;
+    if (character >= '0' && character <= '9') {
+      normalized += character;
+      digits++;
+      if (!seenDecimal) {
+        groupDigits++;
+      }
+      continue;
+    }
+    if (character === decimal && !seenDecimal) {
+      normalized += '.';
+      seenDecimal = true;
+      continue;
+    }
+    const isGroup = character === group || (spaceGroup && SPACE_CHARACTERS.has(character));
+    const next = text[index + 1];
+    // A group separator is only valid between integer digits.
+    if (isGroup && !seenDecimal && digits > 0 && next !== undefined && next >= '0' && next <= '9') {
+      groups.push(groupDigits);
+      groupDigits = 0;
+      continue;
+    }
+    break;
+  }
+
+  if (digits === 0) {
+    return;
+  }
+  let validGrouping = true;
+  if (groups.length > 0) {
+    const [leading = 0, ...rest] = [...groups, groupDigits];
+    const trailing = rest.pop();
+    validGrouping = leading <= secondary && trailing === primary && rest.every((size) => size === secondary);
+  }
+
+  return { value: Number(normalized), end: index, validGrouping };
+};
+
+/**
+ * Finds the unit whose symbol or alias (with or without the postfix) equals
+ * `symbol`. Symbols that include the postfix take precedence, so `5m` with a
+ * `m` postfix reads as metres rather than milli.
+ */
+const matchUnit = (symbol: string, units: UnitArray, postfix: string) => {
+  const matches = (unit: Unit, suffix: string) =>
+    `${unit.unit}${suffix}` === symbol || (unit.aliases?.some((alias) => `${alias}${suffix}` === symbol) ?? false);
+
+  return (
+    units.find((unit) => matches(unit, postfix)) ?? (postfix ? units.find((unit) => matches(unit, '')) : undefined)
+  );
+};
+
+/**
+ * Multiplies `value` by a unit threshold while avoiding the rounding error of
+ * multiplying by sub-unit thresholds such as `0.001`.
+ */
+const scaleByUnit = (value: number, unitValue: number) => {
+  if (unitValue >= 1) {
+    return value * unitValue;
+  }
+  const reciprocal = Math.round(1 / unitValue);
+  return Math.abs(reciprocal * unitValue - 1) < Number.EPSILON * 4 ? value / reciprocal : value * unitValue;
+};
+
+/**
+ * Parses human-entered text such as `8.39 MB` or `250ms` back into a base-unit
+ * value. It is the inverse of {@link humanizeUnit} for the same options.
+ *
+ * The number may use the locale's decimal and grouping separators and a
+ * leading sign. The unit may be separated by `unitSeparator` or whitespace,
+ * and the postfix may be omitted (`500Mi` reads the same as `500MiB` when the
+ * postfix is `B`). A bare number is read as a base-unit value.
+ *
+ * @param text Input text to parse.
+ * @param options Optional configuration overriding {@link ParseUnitOptions}.
+ * @returns The parsed value or an error describing why parsing failed.
+ */
+export const parseUnit = (text: string | null | undefined, options?: ParseUnitOptions): ParseUnitResult => {
+  const {
+    units = DEFAULT_OPTIONS.units,
+    postfix = DEFAULT_OPTIONS.postfix,
+    locale = DEFAULT_OPTIONS.locale,
+    unitSeparator = DEFAULT_OPTIONS.unitSeparator,
+  } = options ?? DEFAULT_OPTIONS;
+
+  const input = text ?? '';
+  const trimmed = input.trim();
+  if (!trimmed) {
+    return { ok: false, error: { code: 'empty', message: 'Expected a value but received empty input.', input } };
+  }
+
+  const number = readNumber(trimmed, locale);
+  if (!number) {
+    return {
+      ok: false,
+      error: { code: 'invalid-number', message: `"${input}" does not start with a number.`, input },
+    };
+  }
+  if (!number.validGrouping) {
+    return {
+      ok: false,
+      error: {
+        code: 'invalid-grouping',
+        message: `"${input}" groups its digits differently from the ${locale} locale.`,
+        input,
+      },
+    };
+  }
+
+  let symbol = trimmed.slice(number.end);
+  if (unitSeparator && symbol.startsWith(unitSeparator)) {
+    symbol = symbol.slice(unitSeparator.length);
+  }
+  symbol = symbol.trim();
+
+  if (!symbol) {
+    return { ok: true, value: number.value, unit: units.find((candidate) => candidate.value === 1) };
+  }
+
+  const unit = matchUnit(symbol, units, postfix);
+  if (!unit) {
+    return {
+      ok: false,
+      error: { code: 'unknown-unit', message: `"${symbol}" is not a recognised unit.`, input },
+    };
+  }
 
-  return `${formattedNumber}${separator}${targetUnit.unit}${postfix}`;
+  return { ok: true, value: scaleByUnit(number.value, unit.value), unit };
 };
 
 /** @internal */
 export const __private__ = {
   selectUnit,
+  readNumber,
 };
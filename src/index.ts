@@ -1,6 +1,20 @@
 // biome-ignore-all lint/performance/noBarrelFile: main export from library
 // biome-ignore-all lint/performance/noReExportAll: main export from library
 
+export * from './defineUnits.js';
 export * from './helpers.js';
+export * from './humanizeClock.js';
+export * from './humanizeCompound.js';
+export * from './humanizeCurrency.js';
+export * from './humanizeDelta.js';
+export * from './humanizeProgress.js';
+export * from './humanizeRate.js';
+export * from './humanizeRelativeTime.js';
+export * from './humanizeSeries.js';
+export * from './humanizeUncertainty.js';
 export * from './humanizeUnit.js';
+export * from './isoDuration.js';
+export * from './temperature.js';
+export * from './unitLocales.js';
+export * from './unitNames.js';
 export * from './units.js';
@@ -0,0 +1,232 @@
+import { addCalendarMonths, calendarMonthsBetween } from './calendar.js';
+import type { CalendarTime } from './units.js';
+
+/**
+ * Components of an ISO 8601 duration such as `P1Y2M3DT4H`. Missing
+ * components count as zero.
+ */
+export type IsoDuration = {
+  years?: number;
+  months?: number;
+  weeks?: number;
+  days?: number;
+  hours?: number;
+  minutes?: number;
+  seconds?: number;
+  /** Whether the duration points backwards in time (`-P1D`). */
+  negative?: boolean;
+};
+
+/**
+ * Options for converting between seconds and {@link IsoDuration}.
+ */
+export type IsoDurationOptions = {
+  /**
+   * Start of the duration. When set, years and months are counted on the
+   * calendar from this date (local time). Otherwise a year is a Julian year
+   * of 365.25 days and a month is a twelfth of it, as in {@link CalendarTime}.
+   */
+  start?: Date | number;
+};
+
+/**
+ * Configuration for `formatIsoDuration`.
+ */
+export type FormatIsoDurationOptions = IsoDurationOptions & {
+  /**
+   * Output value used when the input is `null`, `undefined`, `NaN` or
+   * infinite. Defaults to an empty string.
+   */
+  emptyValue?: string;
+};
+
+/**
+ * Reason reported when `parseIsoDuration` cannot interpret its input.
+ *
+ * - `empty`: the input is `null`, `undefined` or only whitespace.
+ * - `invalid-duration`: the input is not an ISO 8601 duration.
+ */
+export type ParseIsoDurationErrorCode = 'empty' | 'invalid-duration';
+
+/**
+ * Failure details returned by `parseIsoDuration`.
+ */
+export type ParseIsoDurationError = {
+  code: ParseIsoDurationErrorCode;
+  /** Human-readable explanation, suitable for form validation messages. */
+  message: string;
+  /** The original input text. */
+  input: string;
+};
+
+/**
+ * Result of `parseIsoDuration`: the components on success, or an error.
+ */
+export type ParseIsoDurationResult = { ok: true; value: IsoDuration } | { ok: false; error: ParseIsoDurationError };
+
+type IsoDurationComponent = Exclude<keyof IsoDuration, 'negative'>;
+
+/**
+ * Components in designator order with their fixed length in seconds. Years
+ * and months use the Julian year; `start` replaces them with calendar months.
+ */
+const COMPONENTS: ReadonlyArray<{ key: IsoDurationComponent; designator: string; seconds: number }> = [
+  { key: 'years', designator: 'Y', seconds: 31_557_600 },
+  { key: 'months', designator: 'M', seconds: 2_629_800 },
+  { key: 'weeks', designator: 'W', seconds: 604_800 },
+  { key: 'days', designator: 'D', seconds: 86_400 },
+  { key: 'hours', designator: 'H', seconds: 3_600 },
+  { key: 'minutes', designator: 'M', seconds: 60 },
+  { key: 'seconds', designator: 'S', seconds: 1 },
+];
+
+/** Index of the first time component (`hours`), written after `T`. */
+const TIME_INDEX = 4;
+
+const NUMBER = String.raw`(\d+(?:[.,]\d+)?)`;
+const ISO_DURATION_PATTERN = new RegExp(
+  `^([+-])?P(?:${NUMBER}Y)?(?:${NUMBER}M)?(?:${NUMBER}W)?(?:${NUMBER}D)?(?:T(?:${NUMBER}H)?(?:${NUMBER}M)?(?:${NUMBER}S)?)?$`,
+  'i',
+);
+const TRAILING_TIME_DESIGNATOR = /T$/i;
+const FRACTION_SEPARATOR = /[.,]/;
+
+/**
+ * Parses an ISO 8601 duration such as `P1Y2M3DT4H`, `PT1.5S` or `-P2W`.
+ *
+ * Only the last component may have a fraction, which may use a comma
+ * (`PT0,5S`). A leading `-` marks a negative duration.
+ *
+ * @param text Input text to parse.
+ * @returns The duration components or an error describing why parsing failed.
+ */
+export const parseIsoDuration = (text: string | null | undefined): ParseIsoDurationResult => {
+  const input = text ?? '';
+  const trimmed = input.trim();
+  if (!trimmed) {
+    return { ok: false, error: { code: 'empty', message: 'Expected a duration but received empty input.', input } };
+  }
+
+  const match = ISO_DURATION_PATTERN.exec(trimmed);
+  const values = match?.slice(2) ?? [];
+  const present = values.filter((value) => value !== undefined);
+  const fractionIndex = present.findIndex((value) => FRACTION_SEPARATOR.test(value));
+  if (
+    !match ||
+    present.length === 0 ||
+    TRAILING_TIME_DESIGNATOR.test(trimmed) ||
+    (fractionIndex !== -1 && fractionIndex !== present.length - 1)
+  ) {
+    return {
+      ok: false,
+      error: { code: 'invalid-duration', message: `"${input}" is not an ISO 8601 duration.`, input },
+    };
+  }
+
+  const duration: IsoDuration = {};
+  COMPONENTS.forEach(({ key }, index) => {
+    const value = values[index];
+    if (value !== undefined) {
+      duration[key] = Number(value.replace(',', '.'));
+    }
+  });
+  if (match[1] === '-') {
+    duration.negative = true;
+  }
+  return { ok: true, value: duration };
+};
+
+/**
+ * Converts an {@link IsoDuration} to seconds.
+ *
+ * @param duration Duration components.
+ * @param options Optional start date for calendar months.
+ * @returns Signed length in seconds.
+ */
+export const isoDurationToSeconds = (duration: IsoDuration, options?: IsoDurationOptions) => {
+  const { start } = options ?? {};
+  const sign = duration.negative ? -1 : 1;
+  let seconds = 0;
+  for (const { key, seconds: length } of COMPONENTS.slice(start === undefined ? 0 : 2)) {
+    seconds += (duration[key] ?? 0) * length;
+  }
+  if (start === undefined) {
+    return sign * seconds;
+  }
+
+  const startDate = new Date(start);
+  const months = sign * ((duration.years ?? 0) * 12 + (duration.months ?? 0));
+  const whole = Math.trunc(months);
+  const anchor = addCalendarMonths(startDate, whole);
+  const next = addCalendarMonths(startDate, whole + Math.sign(months));
+  const monthMilliseconds =
+    anchor.getTime() - startDate.getTime() + (months - whole) * (next.getTime() - anchor.getTime());
+  return monthMilliseconds / 1_000 + sign * seconds;
+};
+
+/**
+ * Splits seconds into days, hours, minutes and seconds, keeping milliseconds.
+ */
+const splitSeconds = (seconds: number, duration: IsoDuration) => {
+  let rest = Math.round(seconds * 1_000);
+  for (const { key, seconds: length } of COMPONENTS.slice(3)) {
+    const count = Math.floor(rest / (length * 1_000));
+    rest -= count * length * 1_000;
+    duration[key] = key === 'seconds' ? count + rest / 1_000 : count;
+  }
+  return duration;
+};
+
+/**
+ * Converts seconds to {@link IsoDuration} components. Without `start` the
+ * result uses days and smaller components only, which have fixed lengths.
+ */
+const secondsToIsoDuration = (seconds: number, start: Date | number | undefined): IsoDuration => {
+  const negative = seconds < 0;
+  if (start === undefined) {
+    return splitSeconds(Math.abs(seconds), { negative });
+  }
+
+  const startDate = new Date(start);
+  const end = new Date(startDate.getTime() + seconds * 1_000);
+  const months = Math.trunc(calendarMonthsBetween(startDate, end));
+  const anchor = addCalendarMonths(startDate, months);
+  return splitSeconds(Math.abs(end.getTime() - anchor.getTime()) / 1_000, {
+    negative,
+    years: Math.trunc(Math.abs(months) / 12),
+    months: Math.abs(months) % 12,
+  });
+};
+
+/**
+ * Formats a duration as ISO 8601 text, such as `P1Y2M3DT4H`.
+ *
+ * Numbers are read as seconds and written with days and smaller components,
+ * or with calendar years and months counted from `start` when it is set.
+ * Zero components are omitted; an empty duration is `PT0S`.
+ *
+ * @param value Seconds, or duration components to serialize as-is.
+ * @param options Optional configuration overriding {@link FormatIsoDurationOptions}.
+ * @returns ISO 8601 duration, or `emptyValue` for empty and non-finite input.
+ */
+export const formatIsoDuration = (
+  value: number | IsoDuration | null | undefined,
+  options?: FormatIsoDurationOptions,
+) => {
+  const { start, emptyValue = '' } = options ?? {};
+  if (value === null || value === undefined || (typeof value === 'number' && !Number.isFinite(value))) {
+    return emptyValue;
+  }
+
+  const duration = typeof value === 'number' ? secondsToIsoDuration(value, start) : value;
+  const designators = COMPONENTS.map(({ key, designator }) => {
+    const count = duration[key];
+    return count ? `${count}${designator}` : '';
+  });
+  const date = designators.slice(0, TIME_INDEX).join('');
+  const time = designators.slice(TIME_INDEX).join('');
+  if (!date && !time) {
+    return 'PT0S';
+  }
+  return `${duration.negative ? '-' : ''}P${date}${time ? `T${time}` : ''}`;
+};
@@ -0,0 +1,104 @@
+import type { OutputStyle } from './humanizeUnit.js';
+
+const SUPERSCRIPTS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+const SUPERSCRIPT_MINUS = '⁻';
+const MINUS_SIGN = '\u2212';
+const MICRO_SIGN = 'µ';
+
+/**
+ * Matches, in order: an ASCII exponent (`^2`, `^-1`), a Unicode superscript
+ * exponent (`²`, `⁻¹`), a product sign and a micro sign.
+ */
+const UNIT_TOKEN = /\^(-?\d+)|([⁻]?[⁰¹²³⁴-⁹]+)|([*·⋅])|([µμ])/g;
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+const HTML_SPECIAL = /[&<>"']/g;
+
+const LATEX_ESCAPES: Record<string, string> = {
+  '\\': '\\backslash{}',
+  '{': '\\{',
+  '}': '\\}',
+  $: '\\$',
+  '&': '\\&',
+  '#': '\\#',
+  _: '\\_',
+  '%': '\\%',
+  '~': '\\sim{}',
+  '^': '\\wedge{}',
+  ' ': '\\ ',
+  '\u00a0': '~',
+  '\u202f': '\\,',
+  [MINUS_SIGN]: '-',
+};
+const LATEX_SPECIAL = /[\\{}$&#_%~^ \u00a0\u202f\u2212]/g;
+
+/**
+ * Escapes text that is not part of a unit notation token.
+ */
+const escapeText = (text: string, style: OutputStyle) => {
+  if (style === 'html') {
+    return text.replace(HTML_SPECIAL, (character) => HTML_ESCAPES[character] as string);
+  }
+  if (style === 'latex') {
+    return text.replace(LATEX_SPECIAL, (character) => LATEX_ESCAPES[character] as string);
+  }
+  return text;
+};
+
+/**
+ * Writes an exponent such as `-1` in the notation of each style.
+ */
+const EXPONENT_RENDERERS: Record<OutputStyle, (exponent: string) => string> = {
+  ascii: (exponent) => `^${exponent}`,
+  unicode: (exponent) =>
+    exponent.replace('-', SUPERSCRIPT_MINUS).replace(/\d/g, (digit) => SUPERSCRIPTS[Number(digit)] as string),
+  html: (exponent) => `<sup>${exponent.replace('-', MINUS_SIGN)}</sup>`,
+  latex: (exponent) => `^{${exponent}}`,
+};
+
+const PRODUCT_SIGNS: Record<OutputStyle, string> = { ascii: '*', unicode: '·', html: '·', latex: '{\\cdot}' };
+const MICRO_SIGNS: Record<OutputStyle, string> = { ascii: 'u', unicode: MICRO_SIGN, html: MICRO_SIGN, latex: '{\\mu}' };
+
+/**
+ * Renders unit notation such as `kg/m^3`, `N*m` or `µs` for an output style.
+ *
+ * Exponents may be written as `^2`, `^-1` or with Unicode superscripts;
+ * products as `*` or `·`; micro as `µ` or `μ`. Other text is escaped for
+ * `html` and `latex`. LaTeX output is meant for math mode and is not wrapped
+ * in `\mathrm`.
+ *
+ * @param text Unit notation to render.
+ * @param style Target output style.
+ * @returns The unit notation for `style`.
+ */
+export const styleUnitText = (text: string, style: OutputStyle) => {
+  let result = '';
+  let index = 0;
+  for (const match of text.matchAll(UNIT_TOKEN)) {
+    const [token, asciiExponent, superscriptExponent, product] = match;
+    let rendered: string;
+    if (asciiExponent !== undefined) {
+      rendered = EXPONENT_RENDERERS[style](asciiExponent);
+    } else if (superscriptExponent !== undefined) {
+      const exponent = [...superscriptExponent]
+        .map((character) => (character === SUPERSCRIPT_MINUS ? '-' : SUPERSCRIPTS.indexOf(character)))
+        .join('');
+      rendered = EXPONENT_RENDERERS[style](exponent);
+    } else if (product !== undefined) {
+      rendered = PRODUCT_SIGNS[style];
+    } else {
+      rendered = MICRO_SIGNS[style];
+    }
+    result += escapeText(text.slice(index, match.index), style) + rendered;
+    index = match.index + token.length;
+  }
+  return result + escapeText(text.slice(index), style);
+};
+
+/**
+ * Renders text outside unit notation, such as separators and number parts,
+ * for an output style: escaped for `html`, and for `latex` written so it
+ * survives math mode (`{,}` for a comma, `-` for the minus sign).
+ */
+export const styleLiteralText = (text: string, style: OutputStyle) =>
+  style === 'latex' ? escapeText(text, style).replaceAll(',', '{,}') : escapeText(text, style);
@@ -0,0 +1,41 @@
+import type { RoundingMode } from './humanizeUnit.js';
+
+/**
+ * Rounds a number to an integer with each {@link RoundingMode}.
+ */
+export const ROUNDING_FUNCTIONS: Record<RoundingMode, (value: number) => number> = {
+  ceil: Math.ceil,
+  floor: Math.floor,
+  trunc: Math.trunc,
+  halfExpand: (value) => Math.sign(value) * Math.floor(Math.abs(value) + 0.5),
+  halfEven: (value) => (Math.abs(value % 1) === 0.5 ? 2 * Math.round(value / 2) : Math.round(value)),
+};
+
+/**
+ * Rounds `value` to an integer after trimming binary noise, so that e.g.
+ * `1.99 * 100` floors to `199`, not `198`.
+ */
+export const roundInteger = (value: number, roundingMode: RoundingMode) =>
+  ROUNDING_FUNCTIONS[roundingMode](Number(value.toPrecision(15)));
+
+/**
+ * Rounds `value` to the digits that will be displayed: `fractionDigits`
+ * decimals when set, otherwise `significantDigits` significant digits.
+ */
+export const roundToDigits = (
+  value: number,
+  {
+    fractionDigits,
+    significantDigits,
+    roundingMode,
+  }: { fractionDigits?: number; significantDigits: number; roundingMode: RoundingMode },
+) => {
+  if (value === 0) {
+    return value;
+  }
+  const decimals = fractionDigits ?? significantDigits - 1 - Math.floor(Math.log10(Math.abs(value)));
+  const factor = 10 ** Math.abs(decimals);
+  const shifted = decimals >= 0 ? value * factor : value / factor;
+  const rounded = roundInteger(shifted, roundingMode);
+  return decimals >= 0 ? rounded / factor : rounded * factor;
+};
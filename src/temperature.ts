@@ -0,0 +1,50 @@
+import { Celsius, Fahrenheit, Kelvin, Rankine, type UnitArray } from './units.js';
+
+/**
+ * Temperature scale: Celsius, Fahrenheit, Kelvin or Rankine.
+ */
+export type TemperatureScale = 'C' | 'F' | 'K' | 'R';
+
+/** Unit table of each temperature scale. */
+export const TemperatureScales: Record<TemperatureScale, UnitArray> = {
+  C: Celsius,
+  F: Fahrenheit,
+  K: Kelvin,
+  R: Rankine,
+};
+
+/**
+ * Size of a degree in kelvins and the offset added before scaling, so that
+ * `kelvin = (value + offset) * size`.
+ */
+const SCALE_DEFINITIONS: Record<TemperatureScale, { size: number; offset: number }> = {
+  C: { size: 1, offset: 273.15 },
+  F: { size: 5 / 9, offset: 459.67 },
+  K: { size: 1, offset: 0 },
+  R: { size: 5 / 9, offset: 0 },
+};
+
+/**
+ * Converts a temperature between scales.
+ *
+ * Absolute temperatures are points on a scale and convert with offsets
+ * (`10°C` is `50°F`). Differences only scale by the degree size (a rise of
+ * `10K` is `18°F`).
+ *
+ * @param value Temperature or temperature difference on the `from` scale.
+ * @param from Scale of `value`.
+ * @param to Scale of the result.
+ * @param difference Whether `value` is a difference rather than a temperature.
+ * @returns Converted value on the `to` scale.
+ */
+export const convertTemperature = (value: number, from: TemperatureScale, to: TemperatureScale, difference = false) => {
+  if (from === to) {
+    return value;
+  }
+  const source = SCALE_DEFINITIONS[from];
+  const target = SCALE_DEFINITIONS[to];
+  if (difference) {
+    return (value * source.size) / target.size;
+  }
+  return ((value + source.offset) * source.size) / target.size - target.offset;
+};
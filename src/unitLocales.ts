@@ -0,0 +1,450 @@
+// biome-ignore-all lint/security/noSecrets: translated unit names, not secrets
+
+import type { UnitNames } from './units.js';
+
+/**
+ * Localized unit names for one language, looked up through
+ * `Unit.name` and the `postfixName` option.
+ */
+export type UnitLocalePack = {
+  /** Language tag the pack applies to (`de` matches `de-DE` and `de-AT`). */
+  locale: string;
+  /** Localized prefix names by name (e.g. `kilo` → `Kilo`). */
+  prefixes?: Record<string, string>;
+  /** Plural forms of unit names by name (e.g. `hour`, `byte`). */
+  units?: Record<string, UnitNames>;
+  /** Short symbols replacing the table symbol by name (e.g. `byte` → `o`). */
+  symbols?: Record<string, string>;
+  /** Separator between number and unit for `short` display. Defaults to a space. */
+  shortSeparator?: string;
+  /** Separator between number and unit for `long` display. Defaults to a space. */
+  longSeparator?: string;
+  /** Joins a localized prefix and unit name. Defaults to concatenation. */
+  joinPrefix?: (prefix: string, unit: string) => string;
+};
+
+/** English names for the built-in tables and helpers. */
+export const unitLocaleEn: UnitLocalePack = {
+  locale: 'en',
+  prefixes: {
+    quetta: 'quetta',
+    ronna: 'ronna',
+    yotta: 'yotta',
+    zetta: 'zetta',
+    exa: 'exa',
+    peta: 'peta',
+    tera: 'tera',
+    giga: 'giga',
+    mega: 'mega',
+    kilo: 'kilo',
+    hecto: 'hecto',
+    deca: 'deca',
+    deci: 'deci',
+    centi: 'centi',
+    milli: 'milli',
+    micro: 'micro',
+    nano: 'nano',
+    pico: 'pico',
+    femto: 'femto',
+    atto: 'atto',
+    zepto: 'zepto',
+    yocto: 'yocto',
+    ronto: 'ronto',
+    quecto: 'quecto',
+    kibi: 'kibi',
+    mebi: 'mebi',
+    gibi: 'gibi',
+    tebi: 'tebi',
+    pebi: 'pebi',
+    exbi: 'exbi',
+    zebi: 'zebi',
+    yobi: 'yobi',
+  },
+  units: {
+    year: { one: 'year', other: 'years' },
+    month: { one: 'month', other: 'months' },
+    week: { one: 'week', other: 'weeks' },
+    day: { one: 'day', other: 'days' },
+    hour: { one: 'hour', other: 'hours' },
+    minute: { one: 'minute', other: 'minutes' },
+    second: { one: 'second', other: 'seconds' },
+    millisecond: { one: 'millisecond', other: 'milliseconds' },
+    microsecond: { one: 'microsecond', other: 'microseconds' },
+    nanosecond: { one: 'nanosecond', other: 'nanoseconds' },
+    picosecond: { one: 'picosecond', other: 'picoseconds' },
+    femtosecond: { one: 'femtosecond', other: 'femtoseconds' },
+    byte: { one: 'byte', other: 'bytes' },
+    bit: { one: 'bit', other: 'bits' },
+    'byte-per-second': { one: 'byte per second', other: 'bytes per second' },
+    'bit-per-second': { one: 'bit per second', other: 'bits per second' },
+    'byte-per-minute': { one: 'byte per minute', other: 'bytes per minute' },
+    'byte-per-hour': { one: 'byte per hour', other: 'bytes per hour' },
+    'byte-per-day': { one: 'byte per day', other: 'bytes per day' },
+    'bit-per-minute': { one: 'bit per minute', other: 'bits per minute' },
+    'bit-per-hour': { one: 'bit per hour', other: 'bits per hour' },
+    'bit-per-day': { one: 'bit per day', other: 'bits per day' },
+    meter: { one: 'meter', other: 'meters' },
+    'meter-per-second': { one: 'meter per second', other: 'meters per second' },
+    gram: { one: 'gram', other: 'grams' },
+    liter: { one: 'liter', other: 'liters' },
+    coulomb: { one: 'coulomb', other: 'coulombs' },
+    watt: { one: 'watt', other: 'watts' },
+    pascal: { one: 'pascal', other: 'pascals' },
+    newton: { one: 'newton', other: 'newtons' },
+    joule: { one: 'joule', other: 'joules' },
+    volt: { one: 'volt', other: 'volts' },
+    ampere: { one: 'ampere', other: 'amperes' },
+    ohm: { one: 'ohm', other: 'ohms' },
+    farad: { one: 'farad', other: 'farads' },
+    henry: { one: 'henry', other: 'henries' },
+    hertz: { one: 'hertz', other: 'hertz' },
+    weber: { one: 'weber', other: 'webers' },
+    tesla: { one: 'tesla', other: 'teslas' },
+    lux: { one: 'lux', other: 'lux' },
+    lumen: { one: 'lumen', other: 'lumens' },
+    becquerel: { one: 'becquerel', other: 'becquerels' },
+    sievert: { one: 'sievert', other: 'sieverts' },
+    gray: { one: 'gray', other: 'grays' },
+    katal: { one: 'katal', other: 'katals' },
+    celsius: { one: 'degree Celsius', other: 'degrees Celsius' },
+    kelvin: { one: 'kelvin', other: 'kelvins' },
+    rankine: { one: 'degree Rankine', other: 'degrees Rankine' },
+    mile: { one: 'mile', other: 'miles' },
+    yard: { one: 'yard', other: 'yards' },
+    foot: { one: 'foot', other: 'feet' },
+    inch: { one: 'inch', other: 'inches' },
+    ton: { one: 'ton', other: 'tons' },
+    stone: { one: 'stone', other: 'stone' },
+    pound: { one: 'pound', other: 'pounds' },
+    ounce: { one: 'ounce', other: 'ounces' },
+    gallon: { one: 'gallon', other: 'gallons' },
+    quart: { one: 'quart', other: 'quarts' },
+    pint: { one: 'pint', other: 'pints' },
+    cup: { one: 'cup', other: 'cups' },
+    'fluid-ounce': { one: 'fluid ounce', other: 'fluid ounces' },
+    'mile-per-hour': { one: 'mile per hour', other: 'miles per hour' },
+    knot: { one: 'knot', other: 'knots' },
+    fahrenheit: { one: 'degree Fahrenheit', other: 'degrees Fahrenheit' },
+    thousand: { other: 'thousand' },
+    million: { other: 'million' },
+    billion: { other: 'billion' },
+    trillion: { other: 'trillion' },
+    milliard: { other: 'milliard' },
+    'long-billion': { other: 'billion' },
+    billiard: { other: 'billiard' },
+    'long-trillion': { other: 'trillion' },
+    lakh: { other: 'lakh' },
+    crore: { other: 'crore' },
+  },
+  symbols: {
+    minute: 'min',
+  },
+};
+
+const joinGermanPrefix = (prefix: string, unit: string) => `${prefix}${unit.charAt(0).toLowerCase()}${unit.slice(1)}`;
+
+/** German names for the built-in tables and helpers. */
+export const unitLocaleDe: UnitLocalePack = {
+  locale: 'de',
+  prefixes: {
+    quetta: 'Quetta',
+    ronna: 'Ronna',
+    yotta: 'Yotta',
+    zetta: 'Zetta',
+    exa: 'Exa',
+    peta: 'Peta',
+    tera: 'Tera',
+    giga: 'Giga',
+    mega: 'Mega',
+    kilo: 'Kilo',
+    hecto: 'Hekto',
+    deca: 'Deka',
+    deci: 'Dezi',
+    centi: 'Zenti',
+    milli: 'Milli',
+    micro: 'Mikro',
+    nano: 'Nano',
+    pico: 'Piko',
+    femto: 'Femto',
+    atto: 'Atto',
+    zepto: 'Zepto',
+    yocto: 'Yokto',
+    ronto: 'Ronto',
+    quecto: 'Quekto',
+    kibi: 'Kibi',
+    mebi: 'Mebi',
+    gibi: 'Gibi',
+    tebi: 'Tebi',
+    pebi: 'Pebi',
+    exbi: 'Exbi',
+    zebi: 'Zebi',
+    yobi: 'Yobi',
+  },
+  units: {
+    year: { one: 'Jahr', other: 'Jahre' },
+    month: { one: 'Monat', other: 'Monate' },
+    week: { one: 'Woche', other: 'Wochen' },
+    day: { one: 'Tag', other: 'Tage' },
+    hour: { one: 'Stunde', other: 'Stunden' },
+    minute: { one: 'Minute', other: 'Minuten' },
+    second: { one: 'Sekunde', other: 'Sekunden' },
+    millisecond: { one: 'Millisekunde', other: 'Millisekunden' },
+    microsecond: { one: 'Mikrosekunde', other: 'Mikrosekunden' },
+    nanosecond: { one: 'Nanosekunde', other: 'Nanosekunden' },
+    picosecond: { one: 'Pikosekunde', other: 'Pikosekunden' },
+    femtosecond: { one: 'Femtosekunde', other: 'Femtosekunden' },
+    byte: { other: 'Byte' },
+    bit: { other: 'Bit' },
+    'byte-per-second': { other: 'Byte pro Sekunde' },
+    'bit-per-second': { other: 'Bit pro Sekunde' },
+    meter: { other: 'Meter' },
+    'meter-per-second': { other: 'Meter pro Sekunde' },
+    gram: { other: 'Gramm' },
+    liter: { other: 'Liter' },
+    coulomb: { other: 'Coulomb' },
+    watt: { other: 'Watt' },
+    pascal: { other: 'Pascal' },
+    newton: { other: 'Newton' },
+    joule: { other: 'Joule' },
+    volt: { other: 'Volt' },
+    ampere: { other: 'Ampere' },
+    ohm: { other: 'Ohm' },
+    farad: { other: 'Farad' },
+    henry: { other: 'Henry' },
+    hertz: { other: 'Hertz' },
+    weber: { other: 'Weber' },
+    tesla: { other: 'Tesla' },
+    lux: { other: 'Lux' },
+    lumen: { other: 'Lumen' },
+    becquerel: { other: 'Becquerel' },
+    sievert: { other: 'Sievert' },
+    gray: { other: 'Gray' },
+    katal: { other: 'Katal' },
+    celsius: { other: 'Grad Celsius' },
+    fahrenheit: { other: 'Grad Fahrenheit' },
+    kelvin: { other: 'Kelvin' },
+    // German counts on the long scale: a short-scale billion is a Milliarde.
+    thousand: { other: 'Tausend' },
+    million: { one: 'Million', other: 'Millionen' },
+    billion: { one: 'Milliarde', other: 'Milliarden' },
+    trillion: { one: 'Billion', other: 'Billionen' },
+    milliard: { one: 'Milliarde', other: 'Milliarden' },
+    'long-billion': { one: 'Billion', other: 'Billionen' },
+    billiard: { one: 'Billiarde', other: 'Billiarden' },
+    'long-trillion': { one: 'Trillion', other: 'Trillionen' },
+  },
+  symbols: {
+    year: 'J.',
+    month: 'Mon.',
+    week: 'Wo.',
+    day: 'Tg.',
+    hour: 'Std.',
+    minute: 'Min.',
+    second: 'Sek.',
+  },
+  joinPrefix: joinGermanPrefix,
+};
+
+/** French names for the built-in tables and helpers. */
+export const unitLocaleFr: UnitLocalePack = {
+  locale: 'fr',
+  prefixes: {
+    quetta: 'quetta',
+    ronna: 'ronna',
+    yotta: 'yotta',
+    zetta: 'zetta',
+    exa: 'exa',
+    peta: 'péta',
+    tera: 'téra',
+    giga: 'giga',
+    mega: 'méga',
+    kilo: 'kilo',
+    hecto: 'hecto',
+    deca: 'déca',
+    deci: 'déci',
+    centi: 'centi',
+    milli: 'milli',
+    micro: 'micro',
+    nano: 'nano',
+    pico: 'pico',
+    femto: 'femto',
+    atto: 'atto',
+    zepto: 'zepto',
+    yocto: 'yocto',
+    ronto: 'ronto',
+    quecto: 'quecto',
+    kibi: 'kibi',
+    mebi: 'mébi',
+    gibi: 'gibi',
+    tebi: 'tébi',
+    pebi: 'pébi',
+    exbi: 'exbi',
+    zebi: 'zébi',
+    yobi: 'yobi',
+  },
+  units: {
+    year: { one: 'an', other: 'ans' },
+    month: { other: 'mois' },
+    week: { one: 'semaine', other: 'semaines' },
+    day: { one: 'jour', other: 'jours' },
+    hour: { one: 'heure', other: 'heures' },
+    minute: { one: 'minute', other: 'minutes' },
+    second: { one: 'seconde', other: 'secondes' },
+    millisecond: { one: 'milliseconde', other: 'millisecondes' },
+    microsecond: { one: 'microseconde', other: 'microsecondes' },
+    nanosecond: { one: 'nanoseconde', other: 'nanosecondes' },
+    picosecond: { one: 'picoseconde', other: 'picosecondes' },
+    femtosecond: { one: 'femtoseconde', other: 'femtosecondes' },
+    byte: { one: 'octet', other: 'octets' },
+    bit: { one: 'bit', other: 'bits' },
+    'byte-per-second': { one: 'octet par seconde', other: 'octets par seconde' },
+    'bit-per-second': { one: 'bit par seconde', other: 'bits par seconde' },
+    meter: { one: 'mètre', other: 'mètres' },
+    'meter-per-second': { one: 'mètre par seconde', other: 'mètres par seconde' },
+    gram: { one: 'gramme', other: 'grammes' },
+    liter: { one: 'litre', other: 'litres' },
+    coulomb: { one: 'coulomb', other: 'coulombs' },
+    watt: { one: 'watt', other: 'watts' },
+    pascal: { one: 'pascal', other: 'pascals' },
+    newton: { one: 'newton', other: 'newtons' },
+    joule: { one: 'joule', other: 'joules' },
+    volt: { one: 'volt', other: 'volts' },
+    ampere: { one: 'ampère', other: 'ampères' },
+    ohm: { one: 'ohm', other: 'ohms' },
+    farad: { one: 'farad', other: 'farads' },
+    henry: { one: 'henry', other: 'henrys' },
+    hertz: { one: 'hertz', other: 'hertz' },
+    weber: { one: 'weber', other: 'webers' },
+    tesla: { one: 'tesla', other: 'teslas' },
+    lux: { one: 'lux', other: 'lux' },
+    lumen: { one: 'lumen', other: 'lumens' },
+    becquerel: { one: 'becquerel', other: 'becquerels' },
+    sievert: { one: 'sievert', other: 'sieverts' },
+    gray: { one: 'gray', other: 'grays' },
+    katal: { one: 'katal', other: 'katals' },
+    celsius: { one: 'degré Celsius', other: 'degrés Celsius' },
+    fahrenheit: { one: 'degré Fahrenheit', other: 'degrés Fahrenheit' },
+    kelvin: { one: 'kelvin', other: 'kelvins' },
+    // French counts on the long scale: a short-scale billion is a milliard.
+    thousand: { other: 'mille' },
+    million: { one: 'million', other: 'millions' },
+    billion: { one: 'milliard', other: 'milliards' },
+    trillion: { one: 'billion', other: 'billions' },
+    milliard: { one: 'milliard', other: 'milliards' },
+    'long-billion': { one: 'billion', other: 'billions' },
+    billiard: { one: 'billiard', other: 'billiards' },
+    'long-trillion': { one: 'trillion', other: 'trillions' },
+  },
+  symbols: {
+    byte: 'o',
+    'byte-per-second': 'o/s',
+    year: 'an',
+    month: 'mois',
+    week: 'sem.',
+    day: 'j',
+    minute: 'min',
+  },
+  // French typography puts a narrow no-break space before unit symbols.
+  shortSeparator: '\u202f',
+  longSeparator: '\u00a0',
+};
+
+/** Japanese names for the built-in tables and helpers. */
+export const unitLocaleJa: UnitLocalePack = {
+  locale: 'ja',
+  prefixes: {
+    quetta: 'クエタ',
+    ronna: 'ロナ',
+    yotta: 'ヨタ',
+    zetta: 'ゼタ',
+    exa: 'エクサ',
+    peta: 'ペタ',
+    tera: 'テラ',
+    giga: 'ギガ',
+    mega: 'メガ',
+    kilo: 'キロ',
+    hecto: 'ヘクト',
+    deca: 'デカ',
+    deci: 'デシ',
+    centi: 'センチ',
+    milli: 'ミリ',
+    micro: 'マイクロ',
+    nano: 'ナノ',
+    pico: 'ピコ',
+    femto: 'フェムト',
+    atto: 'アト',
+    zepto: 'ゼプト',
+    yocto: 'ヨクト',
+    ronto: 'ロント',
+    quecto: 'クエクト',
+    kibi: 'キビ',
+    mebi: 'メビ',
+    gibi: 'ギビ',
+    tebi: 'テビ',
+    pebi: 'ペビ',
+    exbi: 'エクスビ',
+    zebi: 'ゼビ',
+    yobi: 'ヨビ',
+  },
+  units: {
+    year: { other: '年' },
+    month: { other: 'か月' },
+    week: { other: '週間' },
+    day: { other: '日' },
+    hour: { other: '時間' },
+    minute: { other: '分' },
+    second: { other: '秒' },
+    millisecond: { other: 'ミリ秒' },
+    microsecond: { other: 'マイクロ秒' },
+    nanosecond: { other: 'ナノ秒' },
+    picosecond: { other: 'ピコ秒' },
+    femtosecond: { other: 'フェムト秒' },
+    byte: { other: 'バイト' },
+    bit: { other: 'ビット' },
+    'byte-per-second': { other: 'バイト毎秒' },
+    'bit-per-second': { other: 'ビット毎秒' },
+    meter: { other: 'メートル' },
+    'meter-per-second': { other: 'メートル毎秒' },
+    gram: { other: 'グラム' },
+    liter: { other: 'リットル' },
+    coulomb: { other: 'クーロン' },
+    watt: { other: 'ワット' },
+    pascal: { other: 'パスカル' },
+    newton: { other: 'ニュートン' },
+    joule: { other: 'ジュール' },
+    volt: { other: 'ボルト' },
+    ampere: { other: 'アンペア' },
+    ohm: { other: 'オーム' },
+    farad: { other: 'ファラド' },
+    henry: { other: 'ヘンリー' },
+    hertz: { other: 'ヘルツ' },
+    weber: { other: 'ウェーバ' },
+    tesla: { other: 'テスラ' },
+    lux: { other: 'ルクス' },
+    lumen: { other: 'ルーメン' },
+    becquerel: { other: 'ベクレル' },
+    sievert: { other: 'シーベルト' },
+    gray: { other: 'グレイ' },
+    katal: { other: 'カタール' },
+    celsius: { other: '摂氏度' },
+    fahrenheit: { other: '華氏度' },
+    kelvin: { other: 'ケルビン' },
+    thousand: { other: '千' },
+    million: { other: '百万' },
+    billion: { other: '十億' },
+    trillion: { other: '兆' },
+    milliard: { other: '十億' },
+    'long-billion': { other: '兆' },
+    billiard: { other: '千兆' },
+    'long-trillion': { other: '百京' },
+  },
+  symbols: {
+    year: '年',
+    month: 'か月',
+    week: '週間',
+    day: '日',
+    hour: '時間',
+    minute: '分',
+    second: '秒',
+  },
+};
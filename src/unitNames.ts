@@ -0,0 +1,160 @@
+import { type UnitLocalePack, unitLocaleEn } from './unitLocales.js';
+import type { Unit, UnitNames } from './units.js';
+
+/**
+ * How units are displayed.
+ *
+ * - `narrow`: table symbols with no separator by default (`8.39MB`).
+ * - `short`: localized symbols with the locale's separator (`8,39 Mo`).
+ * - `long`: localized, pluralized names (`8.39 megabytes`, `3 Stunden`).
+ */
+export type UnitDisplay = 'narrow' | 'short' | 'long';
+
+/**
+ * Segment of a unit label: the prefix and postfix symbols for `narrow` and
+ * `short` display, or a single long-form name.
+ */
+export type UnitLabelPart = { type: 'prefix' | 'postfix' | 'unit'; value: string };
+
+const registeredLocales = new Map<string, UnitLocalePack>([['en', unitLocaleEn]]);
+let registrations = 0;
+
+/**
+ * Registers a {@link UnitLocalePack}, replacing any pack for the same locale.
+ * Built-in packs such as `unitLocaleDe` are opt-in so that unused languages
+ * are tree-shaken.
+ *
+ * @param pack Localized unit names.
+ */
+export const registerUnitLocale = (pack: UnitLocalePack) => {
+  registeredLocales.set(pack.locale.toLowerCase(), pack);
+  registrations++;
+};
+
+/**
+ * Returns a counter that changes whenever a pack is registered, so caches of
+ * formatters built with the previous packs can be dropped.
+ *
+ * @internal
+ */
+export const getUnitLocaleVersion = () => registrations;
+
+/**
+ * Finds the pack for `locale`, falling back from the full tag to its language
+ * (`de-DE` → `de`).
+ */
+const getUnitLocale = (locale: string) => {
+  const tag = locale.toLowerCase();
+  return registeredLocales.get(tag) ?? registeredLocales.get(tag.split('-')[0] as string);
+};
+
+/**
+ * Units that `Intl.NumberFormat` names in every locale (`percent`, `hour`).
+ */
+const INTL_UNITS: ReadonlySet<string> = new Set(Intl.supportedValuesOf('unit'));
+
+/**
+ * Default text between number and unit for a display style and locale.
+ */
+export const getDefaultUnitSeparator = (locale: string, unitDisplay: UnitDisplay) => {
+  if (unitDisplay === 'narrow') {
+    return '';
+  }
+  const pack = getUnitLocale(locale);
+  return (unitDisplay === 'long' ? pack?.longSeparator : pack?.shortSeparator) ?? ' ';
+};
+
+/**
+ * Configuration consumed by {@link createUnitLabeler}.
+ */
+type UnitLabelerOptions = {
+  locale: string;
+  unitDisplay: UnitDisplay;
+  postfix: string;
+  postfixName?: string | UnitNames;
+  significantDigits: number;
+  minimumSignificantDigits: number;
+  fractionDigits?: number;
+};
+
+/**
+ * Builds a function returning the label parts for a unit and scaled value,
+ * using the locale pack for short symbols and pluralized long names. Long
+ * names fall back to the unit's `longNames`, then to the name
+ * `Intl.NumberFormat` gives units such as `percent`, then to short symbols.
+ */
+export const createUnitLabeler = (options: UnitLabelerOptions) => {
+  const pack = getUnitLocale(options.locale);
+  const postfixNames =
+    typeof options.postfixName === 'string' ? pack?.units?.[options.postfixName] : options.postfixName;
+  const postfixSymbol =
+    (typeof options.postfixName === 'string' ? pack?.symbols?.[options.postfixName] : undefined) ?? options.postfix;
+  const joinPrefix = pack?.joinPrefix ?? ((prefix: string, unit: string) => `${prefix}${unit}`);
+  const pluralRules =
+    options.unitDisplay === 'long'
+      ? new Intl.PluralRules(
+          options.locale,
+          options.fractionDigits === undefined
+            ? {
+                maximumSignificantDigits: options.significantDigits,
+                minimumSignificantDigits: options.minimumSignificantDigits,
+              }
+            : { minimumFractionDigits: options.fractionDigits, maximumFractionDigits: options.fractionDigits },
+        )
+      : undefined;
+
+  const intlFormats = new Map<string, Intl.NumberFormat>();
+  const intlName = (name: string, scaledValue: number) => {
+    if (!INTL_UNITS.has(name)) {
+      return;
+    }
+    let format = intlFormats.get(name);
+    if (!format) {
+      format = new Intl.NumberFormat(options.locale, { style: 'unit', unit: name, unitDisplay: 'long' });
+      intlFormats.set(name, format);
+    }
+    return format
+      .formatToParts(scaledValue)
+      .filter((part) => part.type === 'unit')
+      .map((part) => part.value)
+      .join('');
+  };
+
+  const shortLabel = (unit: Unit): UnitLabelPart[] => {
+    const parts: UnitLabelPart[] = [];
+    const symbol = (!options.postfix && unit.name && pack?.symbols?.[unit.name]) || unit.unit;
+    if (symbol) {
+      parts.push({ type: 'prefix', value: symbol });
+    }
+    if (postfixSymbol) {
+      parts.push({ type: 'postfix', value: postfixSymbol });
+    }
+    return parts;
+  };
+
+  const longLabel = (unit: Unit, scaledValue: number, rules: Intl.PluralRules): UnitLabelPart[] => {
+    const category = rules.select(scaledValue);
+    const pick = (forms: UnitNames) => forms[category] ?? forms.other;
+
+    if (options.postfix) {
+      const prefix = unit.unit ? unit.name && pack?.prefixes?.[unit.name] : '';
+      if (!postfixNames || prefix === undefined) {
+        return shortLabel(unit);
+      }
+      return [{ type: 'unit', value: prefix ? joinPrefix(prefix, pick(postfixNames)) : pick(postfixNames) }];
+    }
+
+    if (!unit.unit) {
+      return [];
+    }
+    const names = (unit.name && pack?.units?.[unit.name]) || unit.longNames;
+    if (names) {
+      return [{ type: 'unit', value: pick(names) }];
+    }
+    const name = unit.name && intlName(unit.name, scaledValue);
+    return name ? [{ type: 'unit', value: name }] : shortLabel(unit);
+  };
+
+  return (unit: Unit, scaledValue: number) =>
+    pluralRules ? longLabel(unit, scaledValue, pluralRules) : shortLabel(unit);
+};
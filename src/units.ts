@@ -11,58 +11,482 @@ export type Unit = {
    * Suffix appended to the formatted value (e.g. `MB`).
    */
   unit: string;
+  /**
+   * Alternative spellings accepted when parsing (e.g. `µ` for `u`).
+   */
+  aliases?: string[];
+  /**
+   * Locale-independent name used to look up long-form and localized names in
+   * unit locale packs (e.g. `kilo`, `hour`).
+   */
+  name?: string;
+  /**
+   * Long-form names used when no locale pack provides {@link name}
+   * (e.g. `{ one: 'furlong', other: 'furlongs' }`).
+   */
+  longNames?: UnitNames;
 };
 
+/**
+ * Long-form names of a unit by `Intl.PluralRules` category. `other` is
+ * required and used for any category that is missing.
+ */
+export type UnitNames = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
 /**
  * Array of units ordered from largest to smallest magnitude.
- * If it is not ordered, the results from humanizeUnitwill be wrong.
- */
-export type UnitArray = Unit[];
-
-/** SI prefixes. */
-export const SI: UnitArray = [
-  { unit: 'Y', value: 10 ** 24 },
-  { unit: 'Z', value: 10 ** 21 },
-  { unit: 'E', value: 10 ** 18 },
-  { unit: 'P', value: 10 ** 15 },
-  { unit: 'T', value: 10 ** 12 },
-  { unit: 'G', value: 10 ** 9 },
-  { unit: 'M', value: 10 ** 6 },
-  { unit: 'k', value: 10 ** 3 },
-  { unit: '', value: 10 ** 0 },
-  { unit: 'm', value: 10 ** -3 },
-  { unit: 'u', value: 10 ** -6 },
-  { unit: 'n', value: 10 ** -9 },
-  { unit: 'p', value: 10 ** -12 },
-] as const;
+ * `createHumanizer` rejects unordered tables; build tables from runtime data
+ * with `defineUnits`, which sorts and validates them.
+ */
+export type UnitArray = readonly Unit[];
+
+/**
+ * Symbol used for the micro prefix: ASCII `u`, the micro sign `µ` (U+00B5)
+ * or the Greek small letter mu `μ` (U+03BC).
+ */
+export type MicroSymbol = 'u' | 'µ' | 'μ';
+
+/**
+ * Optional SI prefixes between milli and kilo, left out of {@link SI} because
+ * most quantities skip them.
+ */
+export type SIOptionalPrefix = 'hecto' | 'deca' | 'deci' | 'centi';
+
+/**
+ * Configuration for {@link createSIPrefixes}.
+ */
+export type SIPrefixOptions = {
+  /** Symbol used for micro. Defaults to `u`. */
+  microSymbol?: MicroSymbol;
+  /** Optional prefixes to include, for units such as cm, dL or hPa. Defaults to none. */
+  include?: SIOptionalPrefix[];
+};
+
+const MICRO_SYMBOLS: MicroSymbol[] = ['u', 'µ', 'μ'];
+
+// Thresholds are written as literals because `10 ** -24` and friends are not
+// exactly equal to their decimal values.
+const SI_PREFIXES: Array<{ unit: string; name?: string; value: number; optional?: SIOptionalPrefix }> = [
+  { unit: 'Q', name: 'quetta', value: 1e30 },
+  { unit: 'R', name: 'ronna', value: 1e27 },
+  { unit: 'Y', name: 'yotta', value: 1e24 },
+  { unit: 'Z', name: 'zetta', value: 1e21 },
+  { unit: 'E', name: 'exa', value: 1e18 },
+  { unit: 'P', name: 'peta', value: 1e15 },
+  { unit: 'T', name: 'tera', value: 1e12 },
+  { unit: 'G', name: 'giga', value: 1e9 },
+  { unit: 'M', name: 'mega', value: 1e6 },
+  { unit: 'k', name: 'kilo', value: 1e3 },
+  { unit: 'h', name: 'hecto', value: 1e2, optional: 'hecto' },
+  { unit: 'da', name: 'deca', value: 1e1, optional: 'deca' },
+  { unit: '', value: 1 },
+  { unit: 'd', name: 'deci', value: 1e-1, optional: 'deci' },
+  { unit: 'c', name: 'centi', value: 1e-2, optional: 'centi' },
+  { unit: 'm', name: 'milli', value: 1e-3 },
+  { unit: 'u', name: 'micro', value: 1e-6 },
+  { unit: 'n', name: 'nano', value: 1e-9 },
+  { unit: 'p', name: 'pico', value: 1e-12 },
+  { unit: 'f', name: 'femto', value: 1e-15 },
+  { unit: 'a', name: 'atto', value: 1e-18 },
+  { unit: 'z', name: 'zepto', value: 1e-21 },
+  { unit: 'y', name: 'yocto', value: 1e-24 },
+  { unit: 'r', name: 'ronto', value: 1e-27 },
+  { unit: 'q', name: 'quecto', value: 1e-30 },
+];
+
+const siPrefixCache = new Map<string, UnitArray>();
+
+/**
+ * Builds an SI prefix table from quetta (10^30) to quecto (10^-30).
+ *
+ * Tables are cached, so equal options return the same array. The micro entry
+ * lists the other micro symbols as {@link Unit.aliases} so that parsing accepts
+ * all of them.
+ *
+ * @param options Micro symbol and optional prefixes to include.
+ * @returns SI prefix table ordered from largest to smallest.
+ */
+export const createSIPrefixes = ({ microSymbol = 'u', include = [] }: SIPrefixOptions = {}): UnitArray => {
+  const key = `${microSymbol}|${[...include].sort().join(',')}`;
+  const cached = siPrefixCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const units = SI_PREFIXES.filter(({ optional }) => !optional || include.includes(optional)).map(
+    ({ unit, name, value }): Unit =>
+      unit === 'u'
+        ? { unit: microSymbol, name, value, aliases: MICRO_SYMBOLS.filter((symbol) => symbol !== microSymbol) }
+        : { unit, name, value },
+  );
+  siPrefixCache.set(key, units);
+  return units;
+};
+
+/** SI prefixes from quetta (Q) to quecto (q), using `u` for micro. */
+export const SI: UnitArray = createSIPrefixes();
+
+/** SI prefixes including hecto, deca, deci and centi. */
+export const SIExtended: UnitArray = createSIPrefixes({ include: ['hecto', 'deca', 'deci', 'centi'] });
+
+/**
+ * Short-scale magnitudes from thousands (K) to trillions (T), as used in
+ * English business writing and for compact amounts such as `$1.2M`.
+ */
+export const ShortScale: UnitArray = [
+  { value: 1e12, unit: 'T', name: 'trillion' },
+  { value: 1e9, unit: 'B', name: 'billion' },
+  { value: 1e6, unit: 'M', name: 'million' },
+  { value: 1e3, unit: 'K', name: 'thousand' },
+  { value: 1, unit: '' },
+];
+
+/**
+ * Long-scale magnitudes, where a billion is a million millions and a
+ * milliard (`Md`) is a thousand millions.
+ */
+export const LongScale: UnitArray = [
+  { value: 1e18, unit: 'Tn', name: 'long-trillion' },
+  { value: 1e15, unit: 'Bd', name: 'billiard' },
+  { value: 1e12, unit: 'Bn', name: 'long-billion' },
+  { value: 1e9, unit: 'Md', name: 'milliard' },
+  { value: 1e6, unit: 'M', name: 'million' },
+  { value: 1e3, unit: 'k', name: 'thousand' },
+  { value: 1, unit: '' },
+];
+
+/** Indian numbering system: thousand (K), lakh (L, 10^5) and crore (Cr, 10^7). */
+export const Indian: UnitArray = [
+  { value: 1e7, unit: 'Cr', name: 'crore' },
+  { value: 1e5, unit: 'L', name: 'lakh' },
+  { value: 1e3, unit: 'K', name: 'thousand' },
+  { value: 1, unit: '' },
+];
+
+/** Japanese myriad grouping: 万 (10^4), 億 (10^8), 兆 (10^12) and 京 (10^16). */
+export const JapaneseMyriad: UnitArray = [
+  { value: 1e16, unit: '京' },
+  { value: 1e12, unit: '兆' },
+  { value: 1e8, unit: '億' },
+  { value: 1e4, unit: '万' },
+  { value: 1, unit: '' },
+];
+
+/** Simplified Chinese myriad grouping: 万 (10^4), 亿 (10^8) and 万亿 (10^12). */
+export const ChineseMyriad: UnitArray = [
+  { value: 1e12, unit: '万亿' },
+  { value: 1e8, unit: '亿' },
+  { value: 1e4, unit: '万' },
+  { value: 1, unit: '' },
+];
+
+/** Traditional Chinese myriad grouping: 萬 (10^4), 億 (10^8) and 兆 (10^12). */
+export const TraditionalChineseMyriad: UnitArray = [
+  { value: 1e12, unit: '兆' },
+  { value: 1e8, unit: '億' },
+  { value: 1e4, unit: '萬' },
+  { value: 1, unit: '' },
+];
+
+/** Korean myriad grouping: 만 (10^4), 억 (10^8), 조 (10^12) and 경 (10^16). */
+export const KoreanMyriad: UnitArray = [
+  { value: 1e16, unit: '경' },
+  { value: 1e12, unit: '조' },
+  { value: 1e8, unit: '억' },
+  { value: 1e4, unit: '만' },
+  { value: 1, unit: '' },
+];
+
+/**
+ * Numbering system used to pick magnitude units for counts.
+ *
+ * - `si`: SI prefixes (`1G`).
+ * - `short`: {@link ShortScale} (`1B`).
+ * - `long`: {@link LongScale} (`1Md`).
+ * - `indian`: {@link Indian} (`10Cr`).
+ * - `myriad`: the myriad table of the locale's language (`10億`, `10亿`, `10억`).
+ */
+export type CountScale = 'si' | 'short' | 'long' | 'indian' | 'myriad';
+
+/** Languages whose readers use the long scale for large numbers. */
+const LONG_SCALE_LANGUAGES: ReadonlySet<string> = new Set([
+  'bg',
+  'cs',
+  'da',
+  'de',
+  'es',
+  'fi',
+  'fr',
+  'hr',
+  'hu',
+  'it',
+  'nb',
+  'nl',
+  'nn',
+  'no',
+  'pl',
+  'pt',
+  'ro',
+  'sk',
+  'sl',
+  'sr',
+  'sv',
+]);
+
+/** Languages and regions that count in lakhs and crores. */
+const INDIAN_LANGUAGES: ReadonlySet<string> = new Set([
+  'as',
+  'bn',
+  'gu',
+  'hi',
+  'kn',
+  'ml',
+  'mr',
+  'ne',
+  'or',
+  'pa',
+  'ta',
+  'te',
+  'ur',
+]);
+const INDIAN_REGIONS: ReadonlySet<string> = new Set(['BD', 'IN', 'NP', 'PK']);
+
+/** Languages that group large numbers by myriads. */
+const MYRIAD_LANGUAGES: ReadonlySet<string> = new Set(['ja', 'ko', 'zh']);
+
+/**
+ * Picks the numbering system readers of `locale` expect: myriads for
+ * Japanese, Chinese and Korean, lakhs and crores for South Asian languages
+ * and regions, the long scale for most of continental Europe (but not
+ * Brazil), and the short scale otherwise.
+ *
+ * @param locale BCP 47 locale string.
+ * @returns Count scale for the locale.
+ */
+export const getCountScale = (locale: string): CountScale => {
+  const { language, region } = new Intl.Locale(locale);
+  if (MYRIAD_LANGUAGES.has(language)) {
+    return 'myriad';
+  }
+  if (INDIAN_LANGUAGES.has(language) || (region !== undefined && INDIAN_REGIONS.has(region))) {
+    return 'indian';
+  }
+  if (LONG_SCALE_LANGUAGES.has(language) && !(language === 'pt' && region === 'BR')) {
+    return 'long';
+  }
+  return 'short';
+};
+
+/**
+ * Returns the magnitude table of a numbering system. For `myriad`, the
+ * characters follow the language and script of `locale`, defaulting to
+ * Japanese.
+ *
+ * @param scale Numbering system, or `auto` to pick it with {@link getCountScale}.
+ * @param locale BCP 47 locale string. Defaults to `en-US`.
+ * @returns Unit table ordered from largest to smallest.
+ */
+export const getCountUnits = (scale: CountScale | 'auto', locale: string = 'en-US'): UnitArray => {
+  switch (scale === 'auto' ? getCountScale(locale) : scale) {
+    case 'short':
+      return ShortScale;
+    case 'long':
+      return LongScale;
+    case 'indian':
+      return Indian;
+    case 'myriad': {
+      const { language, script } = new Intl.Locale(locale).maximize();
+      if (language === 'ko') {
+        return KoreanMyriad;
+      }
+      if (language === 'zh') {
+        return script === 'Hant' ? TraditionalChineseMyriad : ChineseMyriad;
+      }
+      return JapaneseMyriad;
+    }
+    default:
+      return SI;
+  }
+};
 
 /**
  * Base binary unit array with prefixes only (no postfix).
  * Use with {@link HumanizeUnitOptions.postfix} to add unit abbreviations.
  */
 export const Binary: UnitArray = [
-  { value: 1_024 ** 8, unit: 'Yi' },
-  { value: 1_024 ** 7, unit: 'Zi' },
-  { value: 1_024 ** 6, unit: 'Ei' },
-  { value: 1_024 ** 5, unit: 'Pi' },
-  { value: 1_024 ** 4, unit: 'Ti' },
-  { value: 1_024 ** 3, unit: 'Gi' },
-  { value: 1024 ** 2, unit: 'Mi' },
-  { value: 1024 ** 1, unit: 'Ki' },
+  { value: 1_024 ** 8, unit: 'Yi', name: 'yobi' },
+  { value: 1_024 ** 7, unit: 'Zi', name: 'zebi' },
+  { value: 1_024 ** 6, unit: 'Ei', name: 'exbi' },
+  { value: 1_024 ** 5, unit: 'Pi', name: 'pebi' },
+  { value: 1_024 ** 4, unit: 'Ti', name: 'tebi' },
+  { value: 1_024 ** 3, unit: 'Gi', name: 'gibi' },
+  { value: 1024 ** 2, unit: 'Mi', name: 'mebi' },
+  { value: 1024 ** 1, unit: 'Ki', name: 'kibi' },
   { value: 1024 ** 0, unit: '' },
 ] as const;
 
 /** Time units ranging from femtoseconds to years. */
 export const Time: UnitArray = [
-  { value: 31_536_000, unit: 'y' }, // 365 days
-  { value: 604_800, unit: 'w' },
-  { value: 86_400, unit: 'd' },
-  { value: 3_600, unit: 'h' },
-  { value: 60, unit: 'm' },
-  { value: 1, unit: 's' },
-  { value: 0.001, unit: 'ms' },
-  { value: 0.000_001, unit: 'µs' },
-  { value: 0.000_000_001, unit: 'ns' },
-  { value: 0.000_000_000_001, unit: 'ps' },
-  { value: 0.000_000_000_000_001, unit: 'fs' },
+  { value: 31_536_000, unit: 'y', name: 'year' }, // 365 days
+  { value: 604_800, unit: 'w', name: 'week' },
+  { value: 86_400, unit: 'd', name: 'day' },
+  { value: 3_600, unit: 'h', name: 'hour' },
+  { value: 60, unit: 'm', name: 'minute' },
+  { value: 1, unit: 's', name: 'second' },
+  { value: 0.001, unit: 'ms', name: 'millisecond' },
+  { value: 0.000_001, unit: 'µs', name: 'microsecond', aliases: ['us', 'μs'] },
+  { value: 0.000_000_001, unit: 'ns', name: 'nanosecond' },
+  { value: 0.000_000_000_001, unit: 'ps', name: 'picosecond' },
+  { value: 0.000_000_000_000_001, unit: 'fs', name: 'femtosecond' },
 ];
+
+/**
+ * Time units with calendar months, ranging from femtoseconds to Julian years
+ * (365.25 days). A month is a twelfth of a Julian year.
+ */
+export const CalendarTime: UnitArray = [
+  { value: 31_557_600, unit: 'y', name: 'year' }, // 365.25 days
+  { value: 2_629_800, unit: 'mo', name: 'month' }, // 30.4375 days
+  ...Time.slice(1),
+];
+
+/** Customary lengths (miles to inches) in meters, shared by the US and imperial systems. */
+export const CustomaryLength: UnitArray = [
+  { value: 1_609.344, unit: 'mi', name: 'mile' },
+  { value: 0.9144, unit: 'yd', name: 'yard' },
+  { value: 0.3048, unit: 'ft', name: 'foot' },
+  { value: 0.0254, unit: 'in', name: 'inch' },
+];
+
+/** US customary masses (short tons to ounces) in grams. */
+export const USMass: UnitArray = [
+  { value: 907_184.74, unit: 'ton', name: 'ton' }, // short ton, 2000 lb
+  { value: 453.592_37, unit: 'lb', name: 'pound' },
+  { value: 28.349_523_125, unit: 'oz', name: 'ounce' },
+];
+
+/** Imperial masses (long tons to ounces) in grams. */
+export const ImperialMass: UnitArray = [
+  { value: 1_016_046.908_8, unit: 'ton', name: 'ton' }, // long ton, 2240 lb
+  { value: 6_350.293_18, unit: 'st', name: 'stone' },
+  { value: 453.592_37, unit: 'lb', name: 'pound' },
+  { value: 28.349_523_125, unit: 'oz', name: 'ounce' },
+];
+
+/** US liquid volumes (gallons to fluid ounces) in liters. */
+export const USVolume: UnitArray = [
+  { value: 3.785_411_784, unit: 'gal', name: 'gallon' },
+  { value: 0.946_352_946, unit: 'qt', name: 'quart' },
+  { value: 0.473_176_473, unit: 'pt', name: 'pint' },
+  { value: 0.236_588_236_5, unit: 'cup', name: 'cup' },
+  { value: 0.029_573_529_562_5, unit: 'fl oz', name: 'fluid-ounce' },
+];
+
+/** Imperial volumes (gallons to fluid ounces) in liters. */
+export const ImperialVolume: UnitArray = [
+  { value: 4.546_09, unit: 'gal', name: 'gallon' },
+  { value: 1.136_522_5, unit: 'qt', name: 'quart' },
+  { value: 0.568_261_25, unit: 'pt', name: 'pint' },
+  { value: 0.028_413_062_5, unit: 'fl oz', name: 'fluid-ounce' },
+];
+
+/** Miles per hour in meters per second. */
+export const CustomaryVelocity: UnitArray = [{ value: 0.447_04, unit: 'mph', name: 'mile-per-hour' }];
+
+/** Knots (nautical miles per hour) in meters per second. */
+export const NauticalVelocity: UnitArray = [{ value: 1_852 / 3_600, unit: 'kn', name: 'knot' }];
+
+/** Degrees Celsius, without prefixes since temperatures are points on a scale. */
+export const Celsius: UnitArray = [{ value: 1, unit: '°C', name: 'celsius' }];
+
+/** Degrees Fahrenheit. */
+export const Fahrenheit: UnitArray = [{ value: 1, unit: '°F', name: 'fahrenheit' }];
+
+/** Kelvins; the deprecated `°K` is accepted when parsing. */
+export const Kelvin: UnitArray = [{ value: 1, unit: 'K', name: 'kelvin', aliases: ['°K'] }];
+
+/** Degrees Rankine. */
+export const Rankine: UnitArray = [{ value: 1, unit: '°R', name: 'rankine' }];
+
+/** Ratios as percentages (`0.125` is `12.5%`). */
+export const Percent: UnitArray = [{ value: 0.01, unit: '%', name: 'percent' }];
+
+/** Ratios as per mille (`0.0125` is `12.5‰`). */
+export const Permille: UnitArray = [{ value: 0.001, unit: '‰', name: 'permille', longNames: { other: 'per mille' } }];
+
+/** Ratios as basis points, hundredths of a percent (`0.0025` is `25bp`). */
+export const BasisPoints: UnitArray = [
+  { value: 0.000_1, unit: 'bp', name: 'basis-point', longNames: { one: 'basis point', other: 'basis points' } },
+];
+
+/** Time units used as rate denominators (per second to per day), in seconds. */
+export const RateTime: UnitArray = [
+  { value: 86_400, unit: 'd', name: 'day' },
+  { value: 3_600, unit: 'h', name: 'hour' },
+  { value: 60, unit: 'min', name: 'minute' },
+  { value: 1, unit: 's', name: 'second' },
+];
+
+/**
+ * Bounds and exclusions accepted by {@link restrictUnits}. Units are
+ * referenced by symbol, with or without `postfix` (`T` or `TB`); `''` is the
+ * base unit of prefix tables.
+ */
+export type RestrictUnitsOptions = {
+  /** Smallest unit allowed; smaller values are shown in it (`0.5ms`). */
+  minUnit?: string;
+  /** Largest unit allowed; larger values are shown in it (`1,200TB`). */
+  maxUnit?: string;
+  /** Units never chosen, such as `w` to skip weeks in {@link Time}. */
+  excludeUnits?: readonly string[];
+  /** Postfix that may follow the symbols (e.g. `B`). */
+  postfix?: string;
+};
+
+const restrictedUnitsCache = new WeakMap<UnitArray, Map<string, UnitArray>>();
+
+/**
+ * Returns the part of a unit table between `minUnit` and `maxUnit`, without
+ * `excludeUnits`. Tables are cached, so equal options return the same array.
+ *
+ * @param units Unit table ordered from largest to smallest.
+ * @param options Bounds and exclusions.
+ * @returns The restricted table, or `units` itself when nothing is restricted.
+ * @throws {Error} When a symbol is not part of the table, or `minUnit` is
+ * larger than `maxUnit`.
+ */
+export const restrictUnits = (units: UnitArray, options: RestrictUnitsOptions): UnitArray => {
+  const { minUnit, maxUnit, excludeUnits = [], postfix = '' } = options;
+  if (minUnit === undefined && maxUnit === undefined && excludeUnits.length === 0) {
+    return units;
+  }
+
+  const key = JSON.stringify([minUnit, maxUnit, excludeUnits, postfix]);
+  let cache = restrictedUnitsCache.get(units);
+  const cached = cache?.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const indexOf = (option: string, symbol: string) => {
+    const index = units.findIndex((unit) => unit.unit === symbol || (postfix && `${unit.unit}${postfix}` === symbol));
+    if (index === -1) {
+      throw new Error(`The ${option} "${symbol}" is not part of the unit table.`);
+    }
+    return index;
+  };
+  const maxIndex = maxUnit === undefined ? 0 : indexOf('maxUnit', maxUnit);
+  const minIndex = minUnit === undefined ? units.length - 1 : indexOf('minUnit', minUnit);
+  if (minIndex < maxIndex) {
+    throw new Error(`The minUnit "${minUnit}" is larger than the maxUnit "${maxUnit}".`);
+  }
+  const excluded = new Set(excludeUnits.map((symbol) => units[indexOf('excluded unit', symbol)]));
+  const restricted = units.slice(maxIndex, minIndex + 1).filter((unit) => !excluded.has(unit));
+
+  if (!cache) {
+    cache = new Map();
+    restrictedUnitsCache.set(units, cache);
+  }
+  cache.set(key, restricted);
+  return restricted;
+};
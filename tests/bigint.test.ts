@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  Binary,
+  createHumanizer,
+  humanizeBytes,
+  humanizeBytesBinary,
+  humanizeBytesRange,
+  humanizeDistance,
+  humanizeEventRate,
+  humanizeTemperature,
+  humanizeTimeCompound,
+  humanizeUnit,
+  humanizeUnitToParts,
+} from '../src/index.js';
+
+describe('bigint input', () => {
+  it('formats safe integers like numbers', () => {
+    expect(humanizeBytes(1_500n)).toBe('1.5kB');
+    expect(humanizeUnit(-42n)).toBe('-42');
+    expect(humanizeUnit(0n)).toBe('0');
+  });
+
+  it('scales values beyond the safe integer range exactly', () => {
+    expect(humanizeBytesBinary(2n ** 70n)).toBe('1ZiB');
+    expect(humanizeBytesBinary(2n ** 70n - 1n, { significantDigits: 4 })).toBe('1ZiB');
+    expect(humanizeUnit(2n ** 64n, { units: Binary, postfix: 'B', significantDigits: 20 })).toBe('16EiB');
+    expect(humanizeBytes(123_456_789_012_345_678_901n)).toBe('123EB');
+    expect(humanizeBytes(-(10n ** 24n))).toBe('-1YB');
+  });
+
+  it('keeps the significant digits of long integers', () => {
+    expect(humanizeBytes(123_456_789_012_345_678_901_234_567_890n, { significantDigits: 15 })).toBe('123.456789012346RB');
+    expect(humanizeUnitToParts(10n ** 21n).unit?.unit).toBe('Z');
+  });
+
+  it('caps the significant digits at those of a number', () => {
+    expect(humanizeBytes('18446744073709551616', { significantDigits: 20 })).toBe('18.4467440737096EB');
+    expect(humanizeBytes(2n ** 64n, { significantDigits: 20, minimumSignificantDigits: 20 })).toBe(
+      '18.4467440737096EB',
+    );
+    expect(createHumanizer({ significantDigits: 20 }).options.significantDigits).toBe(15);
+  });
+});
+
+describe('decimal string input', () => {
+  it('parses integers, fractions and exponents', () => {
+    expect(humanizeBytes('18446744073709551616')).toBe('18.4EB');
+    expect(humanizeBytes(' 1.5e21 ')).toBe('1.5ZB');
+    expect(humanizeBytes('-0.0025')).toBe('-2.5mB');
+    expect(humanizeBytes('1500')).toBe('1.5kB');
+  });
+
+  it('returns emptyValue for strings that are not decimal numbers', () => {
+    expect(humanizeBytes('12 MB', { emptyValue: '—' })).toBe('—');
+    expect(humanizeBytes('', { emptyValue: '—' })).toBe('—');
+    expect(humanizeBytes('Infinity', { emptyValue: '—' })).toBe('—');
+  });
+
+  it('keeps the original input in parts', () => {
+    const parts = humanizeUnitToParts('1e30', { postfix: 'B' });
+    expect(parts.value).toBe('1e30');
+    expect(parts.unit?.unit).toBe('Q');
+    expect(parts.scaledValue).toBe(1);
+    expect(humanizeUnitToParts('abc').scaledValue).toBeNaN();
+  });
+});
+
+describe('helpers that convert values', () => {
+  it('accept bigint and decimal strings', () => {
+    expect(humanizeDistance(1_500n)).toBe('1.5km');
+    expect(humanizeDistance('1609.344', { unitSystem: 'us' })).toBe('1mi');
+    expect(humanizeTemperature(25n, { scale: 'F' })).toBe('77°F');
+    expect(humanizeTimeCompound('5000')).toBe('1h 23m 20s');
+    expect(humanizeEventRate(5_000n)).toBe('5k/s');
+  });
+
+  it('return emptyValue for strings that are not decimal numbers', () => {
+    expect(humanizeDistance('far', { unitSystem: 'us', emptyValue: '—' })).toBe('—');
+    expect(humanizeTemperature('', { emptyValue: '—' })).toBe('—');
+    expect(humanizeTimeCompound('soon', { emptyValue: '—' })).toBe('—');
+  });
+});
+
+describe('exact ranges', () => {
+  it('formats bigint and string ends', () => {
+    expect(humanizeBytesRange(0n, 3n * 10n ** 21n)).toBe('0–3ZB');
+    expect(humanizeBytesRange('1e21', 2n * 10n ** 21n)).toBe('1–2ZB');
+    expect(createHumanizer({ postfix: 'B' }).formatRange('x', 1n)).toBe('');
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+
+import { runCli } from '../src/cli.js';
+
+const run = async (args: string[], input: string[] = []) => {
+  const output: string[] = [];
+  const errors: string[] = [];
+  const code = await runCli(args, {
+    readInput: () => input,
+    writeOutput: (line) => output.push(line),
+    writeError: (line) => errors.push(line),
+  });
+  return { code, output, errors };
+};
+
+describe('runCli', () => {
+  it('formats numbers given as arguments', async () => {
+    expect(await run(['1500', '2000000'])).toEqual({ code: 0, output: ['1.5k', '2M'], errors: [] });
+    expect((await run(['--', '-1500'])).output).toEqual(['-1.5k']);
+  });
+
+  it('reads lines from the input when no numbers are given', async () => {
+    expect((await run(['--helper', 'bytes-binary'], ['1024', '1536'])).output).toEqual(['1KiB', '1.5KiB']);
+  });
+
+  it('converts the selected fields and keeps the rest of the line', async () => {
+    const input = ['  alpha   1500\t2500', 'beta 1000000 3000'];
+    expect((await run(['--field', '2'], input)).output).toEqual(['  alpha   1.5k\t2500', 'beta 1M 3000']);
+    expect((await run(['--field', '2-'], input)).output).toEqual(['  alpha   1.5k\t2.5k', 'beta 1M 3k']);
+    expect((await run(['-d', ',', '--field', '1,3'], ['1000,2000,3000'])).output).toEqual(['1k,2000,3k']);
+  });
+
+  it('copies header lines unchanged', async () => {
+    expect((await run(['--header', '1', '--field', '2'], ['name size', 'a 2000'])).output).toEqual([
+      'name size',
+      'a 2k',
+    ]);
+  });
+
+  it('passes fields to helpers that convert or compound values', async () => {
+    expect((await run(['--helper', 'time-compound', '5000'])).output).toEqual(['1h 23m 20s']);
+    expect((await run(['--helper', 'adaptive-byte-rate', '5000'])).output).toEqual(['5kB/s']);
+    expect((await run(['--helper', 'event-rate', '0.5'])).output).toEqual(['30/min']);
+    expect((await run(['--helper', 'temperature-fahrenheit', '212'])).output).toEqual(['212°F']);
+  });
+
+  it('parses humanized values back with --from', async () => {
+    expect((await run(['--from', '1.5G', '2k'])).output).toEqual(['1500000000', '2000']);
+    expect((await run(['--from', '--helper', 'bytes-binary', '1.5KiB'])).output).toEqual(['1536']);
+  });
+
+  it('exposes the formatting options as flags', async () => {
+    expect(
+      (await run(['--units', 'short-scale', '--significant-digits', '2', '--unit-separator', ' ', '1234567'])).output,
+    ).toEqual(['1.2 M']);
+    expect((await run(['--postfix', 'B', '--fraction-digits', '1', '--use-grouping', '1500'])).output).toEqual([
+      '1.5kB',
+    ]);
+    expect((await run(['--helper', 'acceleration', '--output-style', 'unicode', '--si-spacing', '9.81'])).output).toEqual([
+      '9.81\u00a0m/s²',
+    ]);
+    expect((await run(['--helper', 'time', '--max-unit', 'd', '--exclude-units', 'w,h', '864000'])).output).toEqual([
+      '10d',
+    ]);
+    expect((await run(['--locale', 'de-DE', '--sign-display', 'always', '1500'])).output).toEqual(['+1,5k']);
+  });
+
+  it('leaves invalid fields untouched and fails at the end', async () => {
+    const result = await run(['--field', '2'], ['a 1000', 'b n/a', 'c 2000']);
+    expect(result.code).toBe(1);
+    expect(result.output).toEqual(['a 1k', 'b n/a', 'c 2k']);
+    expect(result.errors).toEqual(['humanize-units: line 2, field 2: "n/a" is not a number.']);
+  });
+
+  it('honors --invalid', async () => {
+    const input = ['x', '1000'];
+    expect(await run(['--invalid', 'abort'], input)).toMatchObject({ code: 1, output: [] });
+    expect(await run(['--invalid', 'warn'], input)).toMatchObject({ code: 0, output: ['x', '1k'] });
+    expect(await run(['--invalid', 'ignore'], input)).toEqual({ code: 0, output: ['x', '1k'], errors: [] });
+    expect((await run(['--from', 'lots'])).errors).toHaveLength(1);
+  });
+
+  it('reports usage errors with exit code 2', async () => {
+    for (const args of [
+      ['--bogus'],
+      ['--helper', 'nope'],
+      ['--helper', 'bytes', '--units', 'si'],
+      ['--units', 'nope'],
+      ['--field', '0'],
+      ['--significant-digits', 'two'],
+      ['--rounding-mode', 'up'],
+      ['--from', '--helper', 'bytes-range'],
+      ['--locale', 'not a locale'],
+    ]) {
+      const result = await run(args, ['1']);
+      expect(result.code).toBe(2);
+      expect(result.output).toEqual([]);
+      expect(result.errors[0]).toMatch(/^humanize-units: /);
+    }
+  });
+
+  it('prints help', async () => {
+    const { code, output } = await run(['--help']);
+    expect(code).toBe(0);
+    expect(output[0]).toMatch(/^Usage: humanize-units/);
+  });
+});
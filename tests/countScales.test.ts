@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  ChineseMyriad,
+  defineUnits,
+  getCountScale,
+  getCountUnits,
+  humanizeCount,
+  humanizeCountIndian,
+  humanizeCountLong,
+  humanizeCountMyriad,
+  humanizeCountShort,
+  humanizeUnit,
+  Indian,
+  JapaneseMyriad,
+  KoreanMyriad,
+  LongScale,
+  registerUnitLocale,
+  SI,
+  ShortScale,
+  TraditionalChineseMyriad,
+  unitLocaleDe,
+  unitLocaleFr,
+} from '../src/index.js';
+
+describe('count tables', () => {
+  it('are valid unit tables', () => {
+    for (const units of [
+      ShortScale,
+      LongScale,
+      Indian,
+      JapaneseMyriad,
+      ChineseMyriad,
+      TraditionalChineseMyriad,
+      KoreanMyriad,
+    ]) {
+      expect(defineUnits(units)).toEqual(units);
+    }
+  });
+
+  it('format with each numbering system', () => {
+    expect(humanizeCountShort(1_000_000_000)).toBe('1B');
+    expect(humanizeCountShort(1_250_000, { unitDisplay: 'long' })).toBe('1.25 million');
+    expect(humanizeCountLong(1_000_000_000)).toBe('1Md');
+    expect(humanizeCountLong(2_500_000_000_000)).toBe('2.5Bn');
+    expect(humanizeCountIndian(150_000)).toBe('1.5L');
+    expect(humanizeCountIndian(25_000_000)).toBe('2.5Cr');
+    expect(humanizeCountIndian(250_000, { unitDisplay: 'long' })).toBe('2.5 lakh');
+    expect(humanizeCountMyriad(340_000_000)).toBe('3.4億');
+    expect(humanizeCountMyriad(340_000_000, { locale: 'zh-CN' })).toBe('3.4亿');
+    expect(humanizeCountMyriad(340_000_000, { locale: 'zh-TW' })).toBe('3.4億');
+    expect(humanizeCountMyriad(45_000, { locale: 'zh-TW' })).toBe('4.5萬');
+    expect(humanizeCountMyriad(45_000, { locale: 'ko-KR' })).toBe('4.5만');
+  });
+});
+
+describe('humanizeCount scale option', () => {
+  it('keeps SI prefixes by default', () => {
+    expect(humanizeCount(1_000_000_000)).toBe('1G');
+    expect(humanizeCount(1_000_000_000, { scale: 'short' })).toBe('1B');
+  });
+
+  it('selects the numbering system from locale with auto', () => {
+    expect(humanizeCount(1_000_000_000, { scale: 'auto' })).toBe('1B');
+    expect(humanizeCount(1_000_000_000, { scale: 'auto', locale: 'de-DE' })).toBe('1Md');
+    expect(humanizeCount(1_000_000_000, { scale: 'auto', locale: 'pt-BR' })).toBe('1B');
+    expect(humanizeCount(10_000_000, { scale: 'auto', locale: 'hi-IN' })).toBe('1Cr');
+    expect(humanizeCount(10_000_000, { scale: 'auto', locale: 'en-IN' })).toBe('1Cr');
+    expect(humanizeCount(100_000_000, { scale: 'auto', locale: 'ja-JP' })).toBe('1億');
+  });
+});
+
+describe('getCountScale and getCountUnits', () => {
+  it('map locales to numbering systems', () => {
+    expect(getCountScale('en-US')).toBe('short');
+    expect(getCountScale('fr-CA')).toBe('long');
+    expect(getCountScale('pt-PT')).toBe('long');
+    expect(getCountScale('ur-PK')).toBe('indian');
+    expect(getCountScale('ko')).toBe('myriad');
+  });
+
+  it('return the table of a scale', () => {
+    expect(getCountUnits('si')).toBe(SI);
+    expect(getCountUnits('auto', 'ja')).toBe(JapaneseMyriad);
+    expect(getCountUnits('myriad', 'zh-Hant')).toBe(TraditionalChineseMyriad);
+    expect(getCountUnits('myriad')).toBe(JapaneseMyriad);
+  });
+});
+
+describe('groupingStyle', () => {
+  it('groups digits in the Indian style', () => {
+    expect(humanizeUnit(1_234_567, { units: [{ value: 1, unit: '' }], useGrouping: true, significantDigits: 7 })).toBe(
+      '1,234,567',
+    );
+    expect(
+      humanizeUnit(1_234_567, {
+        units: [{ value: 1, unit: '' }],
+        useGrouping: true,
+        significantDigits: 7,
+        groupingStyle: 'indian',
+      }),
+    ).toBe('12,34,567');
+  });
+
+  it('is the default of the Indian numbering system', () => {
+    expect(humanizeCountIndian(12_345_670_000_000, { useGrouping: true, significantDigits: 7 })).toBe('12,34,567Cr');
+    expect(
+      humanizeCountIndian(12_345_670_000_000, { useGrouping: true, significantDigits: 7, groupingStyle: 'locale' }),
+    ).toBe('1,234,567Cr');
+  });
+});
+
+describe('long scale names', () => {
+  it('spells out counts in the locale, with the SI scale following the locale', () => {
+    expect(humanizeCount(1_500, { unitDisplay: 'long' })).toBe('1.5 thousand');
+    // Without a German pack the symbol is kept rather than an English word.
+    expect(humanizeCountShort(1.5e9, { unitDisplay: 'long', locale: 'de' })).toBe('1,5 B');
+
+    registerUnitLocale(unitLocaleDe);
+    registerUnitLocale(unitLocaleFr);
+    expect(humanizeCountShort(1.5e9, { unitDisplay: 'long', locale: 'de' })).toBe('1,5 Milliarden');
+    expect(humanizeCountLong(1e12, { unitDisplay: 'long', locale: 'de' })).toBe('1 Billion');
+    expect(humanizeCount(2.5e6, { unitDisplay: 'long', locale: 'fr' })).toBe('2,5\u00a0millions');
+    expect(humanizeCount(1.5e9, { unitDisplay: 'long', locale: 'fr-FR' })).toBe('1,5\u00a0milliard');
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  Binary,
+  definePowerUnits,
+  definePrefixedUnits,
+  defineUnits,
+  humanizeUnit,
+  SI,
+  type UnitArray,
+} from '../src/index.js';
+
+describe('defineUnits', () => {
+  it('sorts, deduplicates and freezes entries', () => {
+    const units = defineUnits([
+      { value: 1, unit: '' },
+      { value: 1_000_000, unit: 'M' },
+      { value: 1_000, unit: 'k' },
+      { value: 1_000, unit: 'k' },
+    ]);
+    expect(units.map((unit) => unit.unit)).toEqual(['M', 'k', '']);
+    expect(Object.isFrozen(units)).toBe(true);
+    expect(Object.isFrozen(units[0])).toBe(true);
+    expect(humanizeUnit(2_500, { units })).toBe('2.5k');
+  });
+
+  it('rejects invalid thresholds and names the entry', () => {
+    expect(() => defineUnits([{ value: 0, unit: 'z' }])).toThrow('Unit "z" (0) must have a positive, finite threshold.');
+    expect(() => defineUnits([{ value: Number.POSITIVE_INFINITY, unit: 'x' }])).toThrow('"x" (Infinity)');
+    expect(() => defineUnits([{ value: -1, unit: 'n' }])).toThrow('"n" (-1)');
+    expect(() => defineUnits([{ value: 1 } as never])).toThrow('Unit at index 0 must have a string symbol.');
+    expect(() => defineUnits([])).toThrow('A unit table requires at least one unit definition.');
+  });
+
+  it('rejects duplicate symbols and thresholds', () => {
+    expect(() =>
+      defineUnits([
+        { value: 1_000, unit: 'k' },
+        { value: 1_024, unit: 'k' },
+      ]),
+    ).toThrow('Unit "k" (1024) reuses the symbol "k" of "k" (1000).');
+    expect(() =>
+      defineUnits([
+        { value: 1e-6, unit: 'u', aliases: ['µ'] },
+        { value: 1e-7, unit: 'µ' },
+      ]),
+    ).toThrow('reuses the symbol "µ"');
+    expect(() =>
+      defineUnits([
+        { value: 1_000, unit: 'k' },
+        { value: 1_000, unit: 'K' },
+      ]),
+    ).toThrow('Units "k" (1000) and "K" (1000) share the same threshold.');
+  });
+});
+
+describe('definePrefixedUnits', () => {
+  it('combines a prefix table with a symbol', () => {
+    const wattHours = definePrefixedUnits(SI, 'Wh', { longNames: { one: 'watt-hour', other: 'watt-hours' } });
+    expect(wattHours.find((unit) => unit.value === 1_000)).toEqual({
+      value: 1_000,
+      unit: 'kWh',
+      longNames: { one: 'kilowatt-hour', other: 'kilowatt-hours' },
+    });
+    expect(humanizeUnit(12_500, { units: wattHours })).toBe('12.5kWh');
+    expect(humanizeUnit(1, { units: wattHours, unitDisplay: 'long' })).toBe('1 watt-hour');
+    expect(humanizeUnit(3e-6, { units: wattHours })).toBe('3uWh');
+    expect(definePrefixedUnits(Binary, 'B')[0]?.unit).toBe('YiB');
+  });
+});
+
+describe('definePowerUnits', () => {
+  it('builds tables from powers of a base', () => {
+    const units = definePowerUnits(1_000, [
+      '',
+      'K',
+      'M',
+      { unit: 'B', longNames: { one: 'billion', other: 'billion' } },
+    ]);
+    expect(units.map(({ value }) => value)).toEqual([1e9, 1e6, 1e3, 1]);
+    expect(humanizeUnit(2_500_000_000, { units })).toBe('2.5B');
+    expect(humanizeUnit(2_500_000_000, { units, unitDisplay: 'long' })).toBe('2.5 billion');
+  });
+
+  it('rejects bases that do not grow', () => {
+    expect(() => definePowerUnits(1, ['', 'x'])).toThrow('The power base must be a finite number greater than 1, got 1.');
+  });
+});
+
+describe('unordered tables', () => {
+  it('are rejected instead of formatted wrongly', () => {
+    const units: UnitArray = [
+      { value: 1, unit: '' },
+      { value: 1_000, unit: 'k' },
+    ];
+    expect(() => humanizeUnit(1_500, { units })).toThrow('Unit "k" (1000) must not be larger than the preceding "".');
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+
+import { humanizeClock } from '../src/index.js';
+
+describe('humanizeClock', () => {
+  it('hides hours below one hour by default', () => {
+    expect(humanizeClock(0)).toBe('00:00');
+    expect(humanizeClock(330)).toBe('05:30');
+    expect(humanizeClock(5_025)).toBe('01:23:45');
+    expect(humanizeClock(3_600)).toBe('01:00:00');
+  });
+
+  it('chooses the leading field', () => {
+    expect(humanizeClock(330, { leadingField: 'hours' })).toBe('00:05:30');
+    expect(humanizeClock(5_025, { leadingField: 'minutes' })).toBe('83:45');
+    expect(humanizeClock(200_000, { leadingField: 'minutes', days: true })).toBe('3333:20');
+  });
+
+  it('pads the leading field', () => {
+    expect(humanizeClock(330, { leadingDigits: 1 })).toBe('5:30');
+    expect(humanizeClock(5_025, { leadingDigits: 1 })).toBe('1:23:45');
+    expect(humanizeClock(5_025, { leadingDigits: 3 })).toBe('001:23:45');
+    expect(humanizeClock(360_000, { leadingDigits: 1 })).toBe('100:00:00');
+  });
+
+  it('writes whole days when requested', () => {
+    expect(humanizeClock(183_845)).toBe('51:04:05');
+    expect(humanizeClock(183_845, { days: true })).toBe('2d 03:04:05');
+    expect(humanizeClock(183_845, { days: true, daySymbol: ' days,' })).toBe('2 days, 03:04:05');
+    expect(humanizeClock(183_845, { days: true, unitSeparator: ' ' })).toBe('2 d 03:04:05');
+    expect(humanizeClock(3_600, { days: true })).toBe('01:00:00');
+  });
+
+  it('shows fractional seconds', () => {
+    expect(humanizeClock(5_025.12, { fractionDigits: 3 })).toBe('01:23:45.120');
+    expect(humanizeClock(0.29, { fractionDigits: 2 })).toBe('00:00.29');
+    expect(humanizeClock(59.999, { fractionDigits: 2 })).toBe('00:59.99');
+  });
+
+  it('rounds before carrying into larger fields', () => {
+    expect(humanizeClock(59.9)).toBe('00:59');
+    expect(humanizeClock(59.9, { roundingMode: 'halfExpand' })).toBe('01:00');
+    expect(humanizeClock(3_599.96, { fractionDigits: 1, roundingMode: 'halfExpand' })).toBe('01:00:00.0');
+  });
+
+  it('formats negative durations', () => {
+    expect(humanizeClock(-330)).toBe('-05:30');
+    expect(humanizeClock(-0.4)).toBe('00:00');
+    expect(humanizeClock(-90.5, { fractionDigits: 1 })).toBe('-01:30.5');
+    expect(humanizeClock(-59.9, { roundingMode: 'floor' })).toBe('-01:00');
+  });
+
+  it('uses the digits and decimal separator of the locale', () => {
+    expect(humanizeClock(5_025.5, { locale: 'de-DE', fractionDigits: 1 })).toBe('01:23:45,5');
+    expect(humanizeClock(330, { locale: 'ar-EG' })).toBe('٠٥:٣٠');
+  });
+
+  it('handles empty and non-finite values', () => {
+    expect(humanizeClock(null)).toBe('');
+    expect(humanizeClock(Number.NaN, { emptyValue: '--:--' })).toBe('--:--');
+    expect(humanizeClock(Number.POSITIVE_INFINITY)).toBe('Infinity');
+  });
+
+  it('validates its options', () => {
+    expect(() => humanizeClock(1, { leadingDigits: 0 })).toThrow(
+      'The leadingDigits option must be an integer from 1 to 21.',
+    );
+    expect(() => humanizeClock(1, { fractionDigits: 1.5 })).toThrow(
+      'The fractionDigits option must be an integer from 0 to 9.',
+    );
+  });
+});
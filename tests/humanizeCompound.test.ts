@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+
+import { humanizeCompound, humanizeDistance, humanizeTimeCompound, type UnitArray } from '../src/index.js';
+
+const Imperial: UnitArray = [
+  { value: 12, unit: 'ft' },
+  { value: 1, unit: 'in' },
+];
+
+describe('humanizeCompound', () => {
+  it('breaks durations into several units', () => {
+    expect(humanizeTimeCompound(5_000)).toBe('1h 23m 20s');
+    expect(humanizeCompound(3 * 86_400 + 4 * 3_600)).toBe('3d 4h');
+    expect(humanizeTimeCompound(0.25)).toBe('250ms');
+  });
+
+  it('works with custom tables', () => {
+    expect(humanizeCompound(71, { units: Imperial })).toBe('5ft 11in');
+    expect(humanizeCompound(71, { units: Imperial, unitSeparator: ' ' })).toBe('5 ft 11 in');
+  });
+
+  it('limits the number of parts and rounds the last one', () => {
+    expect(humanizeTimeCompound(5_000, { maxParts: 2 })).toBe('1h 23m');
+    expect(humanizeTimeCompound(5_000, { maxParts: 1 })).toBe('1h');
+    expect(humanizeTimeCompound(3_599.6, { maxParts: 2 })).toBe('1h');
+    // A year is 52 1/7 weeks, so the remainder is rounded rather than truncated.
+    expect(humanizeTimeCompound(31_536_000 + 604_800 * 2 + 86_400 * 6, { maxParts: 2 })).toBe('1y 3w');
+    expect(humanizeTimeCompound(31_536_000 + 604_800 * 2 + 86_400 * 3, { maxParts: 2 })).toBe('1y 2w');
+    // Values that round to a whole larger unit are promoted despite floating-point error.
+    expect(humanizeTimeCompound(31_535_999.9)).toBe('1y');
+    expect(humanizeDistance(0.3047, { unitSystem: 'us', compound: true })).toBe('1ft');
+    expect(humanizeTimeCompound(59.6)).toBe('59s 600ms');
+    expect(humanizeTimeCompound(59.6, { minUnit: 's' })).toBe('1m');
+  });
+
+  it('honours the smallest allowed unit', () => {
+    expect(humanizeTimeCompound(61.4, { minUnit: 's' })).toBe('1m 1s');
+    expect(humanizeTimeCompound(0.3, { minUnit: 's' })).toBe('0s');
+    expect(() => humanizeTimeCompound(1, { minUnit: 'fortnight' })).toThrow(
+      'The minUnit "fortnight" is not part of the unit table.',
+    );
+  });
+
+  it('optionally keeps zero parts', () => {
+    expect(humanizeTimeCompound(3_620)).toBe('1h 20s');
+    expect(humanizeTimeCompound(3_620, { dropZeros: false })).toBe('1h 0m 20s');
+    expect(humanizeTimeCompound(0, { minUnit: 's' })).toBe('0s');
+  });
+
+  it('joins parts with a separator or Intl.ListFormat', () => {
+    expect(humanizeTimeCompound(5_000, { separator: ', ' })).toBe('1h, 23m, 20s');
+    expect(humanizeTimeCompound(5_000, { listType: 'conjunction', listStyle: 'long' })).toBe('1h, 23m, and 20s');
+    expect(humanizeTimeCompound(5_000, { locale: 'de-DE', listStyle: 'long' })).toBe('1h, 23m und 20s');
+  });
+
+  it('handles signs and empty inputs', () => {
+    expect(humanizeTimeCompound(-5_000)).toBe('-1h 23m 20s');
+    expect(humanizeTimeCompound(null, { emptyValue: 'n/a' })).toBe('n/a');
+    expect(humanizeTimeCompound(Number.NaN)).toBe('');
+    expect(humanizeTimeCompound(Number.POSITIVE_INFINITY)).toBe('Infinity');
+    expect(() => humanizeTimeCompound(1, { maxParts: 0 })).toThrow('The maxParts option must be a positive integer.');
+    expect(() => humanizeCompound(1, { units: [] })).toThrow('Compound formatting requires at least one unit definition.');
+  });
+});
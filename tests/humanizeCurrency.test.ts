@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+
+import { humanizeCurrency, ShortScale } from '../src/index.js';
+
+describe('humanizeCurrency', () => {
+  it('places the magnitude next to the number', () => {
+    expect(humanizeCurrency(1_234_567, { currency: 'USD' })).toBe('$1.23M');
+    expect(humanizeCurrency(3_400_000_000, { currency: 'USD' })).toBe('$3.4B');
+    expect(humanizeCurrency(1_200_000, { currency: 'USD', unitSeparator: ' ' })).toBe('$1.2 M');
+  });
+
+  it('follows the locale for symbol position and spacing', () => {
+    expect(humanizeCurrency(850_000, { currency: 'EUR', locale: 'de-DE' })).toBe('850K €');
+    expect(humanizeCurrency(1_250_000, { currency: 'EUR', locale: 'fr-FR' })).toBe('1,25M €');
+    expect(humanizeCurrency(340_000_000, { currency: 'JPY', locale: 'ja-JP' })).toBe('￥3.4億');
+  });
+
+  it('uses myriads for Japanese, Chinese and Korean unless units are set', () => {
+    expect(humanizeCurrency(25_000, { currency: 'JPY', locale: 'ja-JP' })).toBe('￥2.5万');
+    expect(humanizeCurrency(340_000_000, { currency: 'CNY', locale: 'zh-CN' })).toBe('¥3.4亿');
+    expect(humanizeCurrency(340_000_000, { currency: 'KRW', locale: 'ko-KR' })).toBe('₩3.4억');
+    expect(humanizeCurrency(340_000_000, { currency: 'JPY', locale: 'ja-JP', units: ShortScale })).toBe('￥340M');
+  });
+
+  it('supports currency display styles', () => {
+    expect(humanizeCurrency(1_200_000, { currency: 'USD', currencyDisplay: 'code' })).toBe('USD 1.2M');
+    expect(humanizeCurrency(1_200_000, { currency: 'USD', currencyDisplay: 'name' })).toBe('1.2M US dollars');
+  });
+
+  it('uses the currency fraction digits below a thousand', () => {
+    expect(humanizeCurrency(12.5, { currency: 'USD' })).toBe('$12.50');
+    expect(humanizeCurrency(12.5, { currency: 'JPY' })).toBe('¥13');
+    expect(humanizeCurrency(12.345, { currency: 'KWD', currencyDisplay: 'code' })).toBe('KWD 12.345');
+  });
+
+  it('formats negative amounts in standard or accounting style', () => {
+    expect(humanizeCurrency(-3_400_000_000, { currency: 'USD' })).toBe('-$3.4B');
+    expect(humanizeCurrency(-3_400_000_000, { currency: 'USD', currencySign: 'accounting' })).toBe('($3.4B)');
+  });
+
+  it('shares significant digits, rounding and promotion with humanizeUnit', () => {
+    expect(humanizeCurrency(999_999, { currency: 'USD' })).toBe('$1M');
+    expect(humanizeCurrency(1_999_999, { currency: 'USD', roundingMode: 'floor' })).toBe('$1.99M');
+    expect(humanizeCurrency(1_999_999, { currency: 'USD', roundingMode: 'floor', fractionDigits: 2 })).toBe('$1.99M');
+    expect(humanizeCurrency(12.999, { currency: 'USD', roundingMode: 'floor' })).toBe('$12.99');
+    expect(humanizeCurrency(1_234_567, { currency: 'USD', significantDigits: 2 })).toBe('$1.2M');
+    expect(humanizeCurrency(1_500_000, { currency: 'USD', fractionDigits: 2 })).toBe('$1.50M');
+  });
+
+  it('returns emptyValue for empty input and writes infinite values as-is', () => {
+    expect(humanizeCurrency(null, { currency: 'USD', emptyValue: '—' })).toBe('—');
+    expect(humanizeCurrency(Number.NaN, { currency: 'USD' })).toBe('');
+    expect(humanizeCurrency(Number.POSITIVE_INFINITY, { currency: 'USD' })).toBe('Infinity');
+  });
+
+  it('rejects malformed currency codes', () => {
+    expect(() => humanizeCurrency(1, { currency: 'dollars' })).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+
+import { Binary, createProgressTracker, humanizeProgress } from '../src/index.js';
+
+describe('humanizeProgress', () => {
+  it('summarizes a transfer with its own unit for done and total', () => {
+    expect(humanizeProgress({ done: 45.2e6, total: 1.2e9, elapsed: 21.5 })).toEqual({
+      text: '45.2MB / 1.2GB (3.7%) · 2.1MB/s · 9m 10s left',
+      done: '45.2MB',
+      total: '1.2GB',
+      percent: '3.7%',
+      rate: '2.1MB/s',
+      eta: '9m 10s',
+      elapsed: '00:21',
+      ratio: 45.2e6 / 1.2e9,
+      ratePerSecond: 45.2e6 / 21.5,
+      secondsLeft: (1.2e9 - 45.2e6) / (45.2e6 / 21.5),
+    });
+  });
+
+  it('keeps early progress readable', () => {
+    expect(humanizeProgress({ done: 1_500, total: 1.2e9, elapsed: 1 }).text).toMatch(/^1\.5kB \/ 1\.2GB \(0\.0%\)/);
+  });
+
+  it('fills a custom template and leaves unknown placeholders alone', () => {
+    const progress = humanizeProgress(
+      { done: 512 * 1024, total: 2 * 1024 ** 2, elapsed: 4 },
+      { units: Binary, postfix: 'B', unitSeparator: ' ', template: '[{percent}] {done} of {total}, {eta} {nope}' },
+    );
+    expect(progress.text).toBe('[25.0 %] 512 KiB of 2 MiB, 12 s {nope}');
+  });
+
+  it('never shows 100% before the end', () => {
+    expect(humanizeProgress({ done: 999, total: 1_000, elapsed: 1 }).percent).toBe('99.9%');
+    const finished = humanizeProgress({ done: 1_000, total: 1_000, elapsed: 1 });
+    expect(finished.percent).toBe('100.0%');
+    expect(finished.eta).toBe('0s');
+    expect(finished.secondsLeft).toBe(0);
+  });
+
+  it('handles an unknown total', () => {
+    const progress = humanizeProgress({ done: 45.2e6, total: null, elapsed: 10 });
+    expect(progress.text).toBe('45.2MB · 4.52MB/s');
+    expect(progress).toMatchObject({ total: '', percent: '', eta: '∞' });
+    expect(progress.ratio).toBeNaN();
+    expect(progress.secondsLeft).toBeNaN();
+    expect(
+      humanizeProgress({ done: 1e6, elapsed: 10 }, { unknownTotalTemplate: '{done} after {elapsed}' }).text,
+    ).toBe('1MB after 00:10');
+  });
+
+  it('handles stalled transfers and the first instant', () => {
+    const stalled = humanizeProgress({ done: 0, total: 1e9, elapsed: 10 }, { unknownEta: 'unknown' });
+    expect(stalled.text).toBe('0B / 1GB (0.0%) · 0B/s · unknown left');
+    expect(stalled.secondsLeft).toBe(Number.POSITIVE_INFINITY);
+
+    const start = humanizeProgress({ done: 0, total: 1e9, elapsed: 0 }, { emptyValue: '-' });
+    expect(start.rate).toBe('-');
+    expect(start.ratePerSecond).toBeNaN();
+    expect(start.eta).toBe('∞');
+  });
+
+  it('smooths the throughput over a stream of samples', () => {
+    const samples = [
+      { done: 0, total: 100e6, elapsed: 0 },
+      { done: 10e6, total: 100e6, elapsed: 1 },
+      { done: 20e6, total: 100e6, elapsed: 2 },
+      { done: 21e6, total: 100e6, elapsed: 3 },
+    ];
+    const progress = humanizeProgress(samples, { halfLife: 1 });
+    // 10MB/s, then halfway towards the 1MB/s of the last second.
+    expect(progress.ratePerSecond).toBeCloseTo(5.5e6);
+    expect(progress.rate).toBe('5.5MB/s');
+    expect(progress.eta).toBe('15s');
+  });
+
+  it('weights samples by the time they cover', () => {
+    const base = { total: 100e6 };
+    const short = humanizeProgress(
+      [
+        { ...base, done: 0, elapsed: 0 },
+        { ...base, done: 10e6, elapsed: 1 },
+        { ...base, done: 10.1e6, elapsed: 1.1 },
+      ],
+      { halfLife: 1 },
+    );
+    expect(short.ratePerSecond).toBeGreaterThan(9e6);
+  });
+
+  it('validates its input', () => {
+    expect(() => humanizeProgress([])).toThrow('Progress formatting requires at least one sample.');
+    expect(() => humanizeProgress({ done: 1, elapsed: 1 }, { halfLife: 0 })).toThrow(
+      'The halfLife option must be a positive number.',
+    );
+  });
+});
+
+describe('createProgressTracker', () => {
+  it('matches humanizeProgress over the same samples', () => {
+    const samples = [
+      { done: 0, total: 1e9, elapsed: 0 },
+      { done: 4e6, total: 1e9, elapsed: 2 },
+      { done: 9e6, total: 1e9, elapsed: 3.5 },
+      { done: 9e6, total: 1e9, elapsed: 3.5 },
+      { done: 30e6, total: 1e9, elapsed: 6 },
+    ];
+    const tracker = createProgressTracker({ halfLife: 2 });
+    const updates = samples.map((sample) => tracker.update(sample));
+    expect(updates[updates.length - 1]).toEqual(humanizeProgress(samples, { halfLife: 2 }));
+    expect(updates[0]?.eta).toBe('∞');
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  Binary,
+  humanizeAdaptiveBitRate,
+  humanizeAdaptiveByteRate,
+  humanizeEventRate,
+  humanizeRate,
+  type UnitArray,
+} from '../src/index.js';
+
+describe('humanizeRate', () => {
+  it('moves slow rates to longer time units', () => {
+    expect(humanizeRate(0.002, { postfix: 'B' })).toBe('7.2B/h');
+    expect(humanizeRate(7.2, { postfix: 'B' })).toBe('7.2B/s');
+    expect(humanizeRate(0.12, { postfix: 'B' })).toBe('7.2B/min');
+    expect(humanizeRate(1e-6, { postfix: 'B' })).toBe('0.0864B/d');
+  });
+
+  it('chooses the quantity prefix for fast rates', () => {
+    expect(humanizeRate(12_500_000, { postfix: 'B' })).toBe('12.5MB/s');
+    expect(humanizeRate(2_097_152, { units: Binary, postfix: 'B', unitSeparator: ' ' })).toBe('2 MiB/s');
+    expect(humanizeRate(-0.5, { postfix: 'B' })).toBe('-30B/min');
+    expect(humanizeRate(0, { postfix: 'B' })).toBe('0B/s');
+  });
+
+  it('supports the per style and custom quantities', () => {
+    expect(humanizeRate(12_500_000, { postfix: 'B', rateStyle: 'per' })).toBe('12.5MBps');
+    expect(humanizeRate(0.002, { postfix: 'B', rateStyle: 'per' })).toBe('7.2Bph');
+    expect(humanizeRate(0.5, { postfix: ' requests' })).toBe('30 requests/min');
+    expect(humanizeRate(0.0001, { postfix: ' events' })).toBe('8.64 events/d');
+  });
+
+  it('accepts custom time units and long names', () => {
+    const timeUnits: UnitArray = [
+      { value: 604_800, unit: 'wk', name: 'week' },
+      { value: 1, unit: 's', name: 'second' },
+    ];
+    expect(humanizeRate(0.0001, { postfix: 'B', timeUnits })).toBe('60.5B/wk');
+    expect(humanizeRate(0.002, { postfix: 'B', postfixName: 'byte', unitDisplay: 'long' })).toBe('7.2 bytes per hour');
+    expect(() => humanizeRate(1, { timeUnits: [] })).toThrow('Rate formatting requires at least one time unit.');
+  });
+
+  it('returns emptyValue for missing input', () => {
+    expect(humanizeRate(null, { emptyValue: '-' })).toBe('-');
+    expect(humanizeRate(Number.POSITIVE_INFINITY)).toBe('Infinity');
+  });
+});
+
+describe('adaptive rate helpers', () => {
+  it('bind common quantities', () => {
+    expect(humanizeAdaptiveByteRate(0.002, { unitSeparator: ' ' })).toBe('7.2 B/h');
+    expect(humanizeAdaptiveBitRate(100_000_000, { rateStyle: 'per' })).toBe('100Mbps');
+    expect(humanizeEventRate(1_200)).toBe('1.2k/s');
+    expect(humanizeEventRate(0.5)).toBe('30/min');
+  });
+});
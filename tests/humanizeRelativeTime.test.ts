@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+
+import { humanizeRelativeDate, humanizeRelativeTime, type UnitArray } from '../src/index.js';
+
+describe('humanizeRelativeTime', () => {
+  it('phrases past and future deltas', () => {
+    expect(humanizeRelativeTime(-3 * 3_600)).toBe('3 hours ago');
+    expect(humanizeRelativeTime(2 * 86_400)).toBe('in 2 days');
+    expect(humanizeRelativeTime(-86_400)).toBe('yesterday');
+    expect(humanizeRelativeTime(-86_400, { numeric: 'always' })).toBe('1 day ago');
+    expect(humanizeRelativeTime(3 * 604_800)).toBe('in 3 weeks');
+  });
+
+  it('supports styles and locales', () => {
+    expect(humanizeRelativeTime(-3 * 3_600, { style: 'short' })).toBe('3 hr. ago');
+    expect(humanizeRelativeTime(-3 * 3_600, { style: 'narrow' })).toBe('3h ago');
+    expect(humanizeRelativeTime(2 * 86_400, { locale: 'de-DE' })).toBe('übermorgen');
+  });
+
+  it('rounds counts and promotes them to the next unit', () => {
+    expect(humanizeRelativeTime(-95)).toBe('2 minutes ago');
+    expect(humanizeRelativeTime(-3_590)).toBe('1 hour ago');
+  });
+
+  it('renders small deltas as just now', () => {
+    expect(humanizeRelativeTime(-5)).toBe('now');
+    expect(humanizeRelativeTime(-5, { justNowThreshold: 0 })).toBe('5 seconds ago');
+    expect(humanizeRelativeTime(30, { justNowThreshold: 60, justNowText: 'just now' })).toBe('just now');
+  });
+
+  it('uses custom tables and rejects unsupported ones', () => {
+    const units: UnitArray = [
+      { value: 7_776_000, unit: 'q', name: 'quarter' },
+      { value: 2_592_000, unit: 'mo', name: 'month' },
+      { value: 86_400, unit: 'd', name: 'day' },
+    ];
+    expect(humanizeRelativeTime(-5_184_000, { units })).toBe('2 months ago');
+    expect(humanizeRelativeTime(8_000_000, { units })).toBe('next quarter');
+    expect(() => humanizeRelativeTime(1, { units: [{ value: 1, unit: 's' }] })).toThrow(
+      'Relative time formatting requires at least one unit named like an Intl.RelativeTimeFormat unit.',
+    );
+  });
+
+  it('returns emptyValue for missing and non-finite input', () => {
+    expect(humanizeRelativeTime(null, { emptyValue: '-' })).toBe('-');
+    expect(humanizeRelativeTime(Number.NaN, { emptyValue: '-' })).toBe('-');
+    expect(humanizeRelativeTime(Number.POSITIVE_INFINITY, { emptyValue: '-' })).toBe('-');
+  });
+});
+
+describe('humanizeRelativeDate', () => {
+  const now = new Date('2026-01-15T12:00:00Z');
+
+  it('compares dates with an injected now', () => {
+    expect(humanizeRelativeDate(new Date('2026-01-15T11:55:00Z'), { now })).toBe('5 minutes ago');
+    expect(humanizeRelativeDate(now.getTime() + 3 * 3_600_000, { now: () => now.getTime() })).toBe('in 3 hours');
+  });
+
+  it('returns emptyValue for invalid dates', () => {
+    expect(humanizeRelativeDate(new Date('invalid'), { now, emptyValue: '-' })).toBe('-');
+    expect(humanizeRelativeDate(undefined, { now, emptyValue: '-' })).toBe('-');
+  });
+});
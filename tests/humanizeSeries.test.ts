@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+
+import { Binary, humanizeAxisTicks, humanizeSeries, humanizeUnit, Time } from '../src/index.js';
+
+describe('humanizeSeries', () => {
+  it('shares one unit and precision across values', () => {
+    expect(humanizeSeries([950_000, 1_000_000, 1_050_000])).toEqual(['0.95M', '1.00M', '1.05M']);
+  });
+
+  it('picks the unit after rounding like humanizeUnit', () => {
+    expect(humanizeSeries([999_999])).toEqual(['1.00M']);
+    expect(humanizeSeries([999_999], { fractionDigits: 1 })).toEqual(['1.0M']);
+    expect(humanizeSeries([999_400, 500_000])).toEqual(['999k', '500k']);
+  });
+
+  it('picks the unit by strategy', () => {
+    const values = [950_000, 1_000_000, 2_500_000];
+    expect(humanizeSeries(values, { strategy: 'max' })).toEqual(['0.95M', '1.00M', '2.50M']);
+    expect(humanizeSeries(values, { strategy: 'min' })).toEqual(['950k', '1000k', '2500k']);
+    expect(humanizeSeries([1_000, 950_000, 2_000_000], { strategy: 'median' })).toEqual(['1k', '950k', '2000k']);
+  });
+
+  it('adds digits until distinct values get distinct labels', () => {
+    expect(humanizeSeries([1_000, 1_001, 1_002])).toEqual(['1.000k', '1.001k', '1.002k']);
+    expect(humanizeSeries([5, 5, 6])).toEqual(['5.00', '5.00', '6.00']);
+  });
+
+  it('honours fractionDigits and formatting options', () => {
+    expect(humanizeSeries([1_536, 1_048_576], { units: Binary, postfix: 'B', fractionDigits: 1, unitSeparator: ' ' })).toEqual([
+      '0.0 MiB',
+      '1.0 MiB',
+    ]);
+    expect(humanizeSeries([60, 5_400], { units: Time, unitDisplay: 'long' })).toEqual(['0.02 hours', '1.50 hours']);
+  });
+
+  it('handles zeros and empty values', () => {
+    expect(humanizeSeries([0, null, Number.NaN, 0], { emptyValue: '-' })).toEqual(['0', '-', '-', '0']);
+    expect(humanizeSeries([])).toEqual([]);
+  });
+
+  it('leaves fractionDigits to humanizeUnit as a fixed precision', () => {
+    expect(humanizeUnit(1_500_000, { fractionDigits: 2 })).toBe('1.50M');
+  });
+});
+
+describe('humanizeAxisTicks', () => {
+  it('produces round ticks with shared labels', () => {
+    expect(humanizeAxisTicks(0, 1_000_000)).toEqual({
+      values: [0, 200_000, 400_000, 600_000, 800_000, 1_000_000],
+      labels: ['0.0M', '0.2M', '0.4M', '0.6M', '0.8M', '1.0M'],
+    });
+    expect(humanizeAxisTicks(0.1, 0.95, { tickCount: 4 })).toEqual({
+      values: [0, 0.5, 1],
+      labels: ['0.0', '0.5', '1.0'],
+    });
+  });
+
+  it('rounds ticks in the unit of their labels', () => {
+    expect(humanizeAxisTicks(0, 18_000, { units: Time })).toEqual({
+      values: [0, 3_600, 7_200, 10_800, 14_400, 18_000],
+      labels: ['0h', '1h', '2h', '3h', '4h', '5h'],
+    });
+  });
+
+  it('falls back to the ends of ranges too small to step through', () => {
+    const { values, labels } = humanizeAxisTicks(0, 1e-320);
+    expect(values).toEqual([0, 1e-320]);
+    expect(labels).toHaveLength(2);
+  });
+
+  it('spans ranges given in any order', () => {
+    const { values, labels } = humanizeAxisTicks(1_048_576, 0, { units: Binary, postfix: 'B', strategy: 'min' });
+    expect(values[0]).toBe(0);
+    expect(values[values.length - 1]).toBeGreaterThanOrEqual(1_048_576);
+    expect(labels).toHaveLength(values.length);
+  });
+
+  it('validates its input', () => {
+    expect(humanizeAxisTicks(5, 5)).toEqual({ values: [5], labels: ['5.00'] });
+    expect(() => humanizeAxisTicks(0, Number.POSITIVE_INFINITY)).toThrow('Axis ticks require a finite min and max.');
+    expect(() => humanizeAxisTicks(0, 1, { tickCount: 1 })).toThrow(
+      'The tickCount option must be an integer of at least 2.',
+    );
+  });
+});
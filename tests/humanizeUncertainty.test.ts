@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+
+import { Binary, humanizeUncertainty } from '../src/index.js';
+
+describe('humanizeUncertainty', () => {
+  it('rounds the value to the place of the uncertainty', () => {
+    expect(humanizeUncertainty(12_345, 400, { postfix: 'V' })).toBe('12.3 ± 0.4 kV');
+    expect(humanizeUncertainty(12_345, 150, { postfix: 'V' })).toBe('12.35 ± 0.15 kV');
+    expect(humanizeUncertainty(12_345, 1, { postfix: 'V' })).toBe('12.3450 ± 0.0010 kV');
+    expect(humanizeUncertainty(9.8765, 0.01)).toBe('9.877 ± 0.010');
+  });
+
+  it('keeps one or two uncertainty digits on request', () => {
+    expect(humanizeUncertainty(1_234, 50)).toBe('1.23 ± 0.05 k');
+    expect(humanizeUncertainty(1_234, 50, { uncertaintyDigits: 2 })).toBe('1.234 ± 0.050 k');
+    expect(humanizeUncertainty(12_345, 150, { postfix: 'V', uncertaintyDigits: 1 })).toBe('12.3 ± 0.2 kV');
+  });
+
+  it('writes the concise notation', () => {
+    expect(humanizeUncertainty(0.001_234, 0.000_005, { postfix: 'm', notation: 'concise' })).toBe('1.234(5) mm');
+    expect(humanizeUncertainty(1_234, 50, { notation: 'concise' })).toBe('1.23(5) k');
+    expect(humanizeUncertainty(-12.34, 0.12, { notation: 'concise', locale: 'de-DE' })).toBe('-12,34(12)');
+  });
+
+  it('writes the relative notation', () => {
+    expect(humanizeUncertainty(12_345, 400, { postfix: 'V', notation: 'relative' })).toBe('12.3 kV ± 3.2%');
+  });
+
+  it('formats asymmetric uncertainties', () => {
+    const uncertainty = { plus: 400, minus: 200 };
+    expect(humanizeUncertainty(12_345, uncertainty, { postfix: 'V' })).toBe('12.35 +0.40/−0.20 kV');
+    expect(humanizeUncertainty(12_345, uncertainty, { postfix: 'V', notation: 'concise' })).toBe('12.35(+40/−20) kV');
+    expect(humanizeUncertainty(12_345, uncertainty, { notation: 'relative' })).toBe('12.35 k +3.2%/−1.6%');
+  });
+
+  it('shares the unit of the larger of the value and the uncertainty', () => {
+    expect(humanizeUncertainty(1.5 * 2 ** 20, 20_000, { units: Binary, postfix: 'B' })).toBe('1.500 ± 0.019 MiB');
+    expect(humanizeUncertainty(0, 0.3, { postfix: 'V' })).toBe('0 ± 300 mV');
+    expect(humanizeUncertainty(999_700, 400, { postfix: 'V' })).toBe('0.9997 ± 0.0004 MV');
+    expect(humanizeUncertainty(5, 2_000, { postfix: 'V' })).toBe('0.0 ± 2.0 kV');
+    expect(humanizeUncertainty(-5, { plus: 2_000, minus: 30 }, { postfix: 'V' })).toBe('-0.005 +2.000/−0.030 kV');
+  });
+
+  it('shows three significant digits without uncertainty', () => {
+    expect(humanizeUncertainty(12_345, 0, { postfix: 'V' })).toBe('12.3 ± 0.0 kV');
+  });
+
+  it('returns emptyValue for missing input', () => {
+    expect(humanizeUncertainty(null, 1)).toBe('');
+    expect(humanizeUncertainty(1, undefined, { emptyValue: '-' })).toBe('-');
+    expect(humanizeUncertainty(Number.NaN, 1)).toBe('');
+    expect(humanizeUncertainty(1, { plus: Number.POSITIVE_INFINITY, minus: 1 })).toBe('');
+  });
+
+  it('rejects negative uncertainties', () => {
+    expect(() => humanizeUncertainty(1, -1)).toThrow('The uncertainty must not be negative.');
+    expect(() => humanizeUncertainty(1, { plus: 1, minus: -1 })).toThrow();
+  });
+});
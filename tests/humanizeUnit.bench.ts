@@ -0,0 +1,32 @@
+import { bench, describe } from 'vitest';
+
+import { createHumanizer, humanizeBytes, humanizeUnit, SI } from '../src/index.js';
+
+const values = Array.from({ length: 1_000 }, (_, index) => (index + 1) * 123_457);
+
+describe('format 1k values', () => {
+  bench('humanizeUnit (per-call Intl.NumberFormat)', () => {
+    for (const value of values) {
+      humanizeUnit(value, { units: SI, postfix: 'B' });
+    }
+  });
+
+  const humanizer = createHumanizer({ units: SI, postfix: 'B' });
+  bench('createHumanizer().format', () => {
+    for (const value of values) {
+      humanizer.format(value);
+    }
+  });
+
+  bench('humanizeBytes helper', () => {
+    for (const value of values) {
+      humanizeBytes(value);
+    }
+  });
+
+  bench('humanizeBytes helper with options', () => {
+    for (const value of values) {
+      humanizeBytes(value, { unitSeparator: ' ' });
+    }
+  });
+});
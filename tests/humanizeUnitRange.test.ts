@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  createHumanizer,
+  humanizeBytesBinaryRange,
+  humanizeBytesRange,
+  humanizeCountRange,
+  humanizeTimeRange,
+  humanizeUnitRange,
+} from '../src/index.js';
+
+describe('humanizeUnitRange', () => {
+  it('writes a shared unit once', () => {
+    expect(humanizeUnitRange(1.5e9, 3e9, { postfix: 'B' })).toBe('1.5–3GB');
+    expect(humanizeUnitRange(1.5e9, 3e9, { postfix: 'B', unitSeparator: ' ' })).toBe('1.5–3 GB');
+    expect(humanizeUnitRange(0, 3e9, { postfix: 'B' })).toBe('0–3GB');
+  });
+
+  it('keeps both units when the ends differ', () => {
+    expect(humanizeUnitRange(950_000, 1_200_000, { postfix: 'B', unitSeparator: ' ' })).toBe('950 kB – 1.2 MB');
+  });
+
+  it('produces the approximate form when both ends round alike', () => {
+    expect(humanizeUnitRange(1.5e9, 1.501e9, { postfix: 'B', unitSeparator: ' ' })).toBe('~1.5 GB');
+  });
+
+  it('uses locale-specific range separators and long names', () => {
+    expect(humanizeUnitRange(1_000, 3_000, { postfix: 'B', postfixName: 'byte', unitDisplay: 'long' })).toBe(
+      '1–3 kilobytes',
+    );
+    expect(humanizeUnitRange(-1_000, 2_000, { locale: 'fr-FR' })).toBe('-1 – 2k');
+  });
+
+  it('returns emptyValue for empty ends and writes out infinite ones', () => {
+    expect(humanizeUnitRange(null, 5, { emptyValue: '-' })).toBe('-');
+    expect(humanizeUnitRange(5, Number.NaN, { emptyValue: '-' })).toBe('-');
+    expect(humanizeUnitRange(1_000, Number.POSITIVE_INFINITY)).toBe('1k – Infinity');
+  });
+
+  it('is available on humanizers', () => {
+    expect(createHumanizer({ postfix: 'B' }).formatRange(1.5e9, 3e9)).toBe('1.5–3GB');
+  });
+});
+
+describe('range presets', () => {
+  it('format common quantities', () => {
+    expect(humanizeBytesRange(1.5e9, 3e9, { unitSeparator: ' ' })).toBe('1.5–3 GB');
+    expect(humanizeBytesBinaryRange(524_288, 2_097_152)).toBe('512KiB – 2MiB');
+    expect(humanizeTimeRange(0.01, 2, { unitSeparator: ' ' })).toBe('10 ms – 2 s');
+    expect(humanizeCountRange(1_500, 3_000)).toBe('1.5–3k');
+  });
+});
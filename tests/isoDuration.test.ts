@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  CalendarTime,
+  formatIsoDuration,
+  humanizeTime,
+  humanizeUnit,
+  isoDurationToSeconds,
+  parseIsoDuration,
+} from '../src/index.js';
+
+const DAY = 86_400;
+
+describe('parseIsoDuration', () => {
+  it('reads every component', () => {
+    expect(parseIsoDuration('P1Y2M3DT4H')).toEqual({ ok: true, value: { years: 1, months: 2, days: 3, hours: 4 } });
+    expect(parseIsoDuration('PT1H30M15.5S')).toEqual({ ok: true, value: { hours: 1, minutes: 30, seconds: 15.5 } });
+    expect(parseIsoDuration('-P2W')).toEqual({ ok: true, value: { weeks: 2, negative: true } });
+    expect(parseIsoDuration(' pt0,5s ')).toEqual({ ok: true, value: { seconds: 0.5 } });
+  });
+
+  it('reports empty and malformed input', () => {
+    expect(parseIsoDuration('  ')).toMatchObject({ ok: false, error: { code: 'empty' } });
+    expect(parseIsoDuration(null)).toMatchObject({ ok: false, error: { code: 'empty', input: '' } });
+    for (const input of ['P', 'PT', 'P1DT', '1D', 'P1H', 'P1.5Y2M', 'PT1M1H']) {
+      expect(parseIsoDuration(input)).toMatchObject({
+        ok: false,
+        error: { code: 'invalid-duration', message: `"${input}" is not an ISO 8601 duration.` },
+      });
+    }
+  });
+});
+
+describe('formatIsoDuration', () => {
+  it('writes seconds with days and smaller components', () => {
+    expect(formatIsoDuration(93_784)).toBe('P1DT2H3M4S');
+    expect(formatIsoDuration(-90.25)).toBe('-PT1M30.25S');
+    expect(formatIsoDuration(400 * DAY)).toBe('P400D');
+    expect(formatIsoDuration(0)).toBe('PT0S');
+  });
+
+  it('serializes components as-is', () => {
+    expect(formatIsoDuration({ years: 1, months: 2, days: 3, hours: 4 })).toBe('P1Y2M3DT4H');
+    expect(formatIsoDuration({ weeks: 2, negative: true })).toBe('-P2W');
+    expect(formatIsoDuration({})).toBe('PT0S');
+  });
+
+  it('counts calendar years and months from start', () => {
+    const start = new Date(2024, 0, 31);
+    const end = new Date(2025, 2, 31, 4);
+    expect(formatIsoDuration((end.getTime() - start.getTime()) / 1_000, { start })).toBe('P1Y2MT4H');
+    expect(formatIsoDuration(29 * DAY, { start })).toBe('P1M');
+  });
+
+  it('returns emptyValue for empty and non-finite input', () => {
+    expect(formatIsoDuration(null, { emptyValue: '—' })).toBe('—');
+    expect(formatIsoDuration(Number.POSITIVE_INFINITY)).toBe('');
+  });
+
+  it('round-trips through parseIsoDuration', () => {
+    const parsed = parseIsoDuration('P1Y2M3DT4H5M6S');
+    expect(parsed.ok && formatIsoDuration(parsed.value)).toBe('P1Y2M3DT4H5M6S');
+  });
+});
+
+describe('isoDurationToSeconds', () => {
+  it('uses Julian years and mean months without start', () => {
+    expect(isoDurationToSeconds({ years: 1 })).toBe(365.25 * DAY);
+    expect(isoDurationToSeconds({ months: 12 })).toBe(365.25 * DAY);
+    expect(isoDurationToSeconds({ weeks: 1, days: 1, hours: 1, minutes: 1, seconds: 1 })).toBe(8 * DAY + 3_661);
+    expect(isoDurationToSeconds({ days: 1, negative: true })).toBe(-DAY);
+  });
+
+  it('counts calendar months from start', () => {
+    const start = new Date(2024, 0, 31);
+    expect(isoDurationToSeconds({ months: 1 }, { start })).toBe(29 * DAY);
+    expect(isoDurationToSeconds({ months: 1, days: 1 }, { start: new Date(2023, 0, 31) })).toBe(29 * DAY);
+    expect(isoDurationToSeconds({ months: 0.5 }, { start: new Date(2024, 1, 1) })).toBe(14.5 * DAY);
+    expect(isoDurationToSeconds({ months: 1, negative: true }, { start: new Date(2024, 2, 1) })).toBe(-29 * DAY);
+  });
+});
+
+describe('calendar units', () => {
+  it('includes months and Julian years in CalendarTime', () => {
+    expect(humanizeUnit(365.25 * DAY, { units: CalendarTime })).toBe('1y');
+    expect(humanizeUnit(45 * DAY, { units: CalendarTime })).toBe('1.48mo');
+    expect(humanizeUnit(91.3125 * DAY, { units: CalendarTime, unitDisplay: 'long' })).toBe('3 months');
+  });
+
+  it('anchors humanizeTime to the calendar from start', () => {
+    const start = new Date(2024, 0, 15);
+    expect(humanizeTime(31 * DAY, { start })).toBe('1mo');
+    expect(humanizeTime(29 * DAY, { start: new Date(2024, 1, 1) })).toBe('1mo');
+    expect(humanizeTime(29 * DAY)).toBe('4.14w');
+    expect(humanizeTime(366 * DAY, { start, unitDisplay: 'long' })).toBe('1 year');
+    expect(humanizeTime(45 * DAY, { start: new Date(2024, 1, 1) })).toBe('1.52mo');
+    expect(humanizeTime(-31 * DAY, { start: new Date(2024, 2, 1) })).toBe('-1.06mo');
+    expect(humanizeTime(10 * DAY, { start })).toBe('1.43w');
+    expect(humanizeTime(null, { start, emptyValue: '—' })).toBe('—');
+    expect(humanizeTime('abc', { start })).toBe('');
+  });
+
+  it('applies unit bounds to the calendar table from start', () => {
+    const start = new Date(2024, 0, 15);
+    expect(humanizeTime(4e6, { start, maxUnit: 'd' })).toBe('46.3d');
+    expect(humanizeTime(400 * DAY, { start, maxUnit: 'mo' })).toBe('13.1mo');
+    expect(humanizeTime(10 * DAY, { start, minUnit: 'mo' })).toBe('0.323mo');
+    expect(humanizeTime(100 * DAY, { start, excludeUnits: ['mo'] })).toBe('14.3w');
+    expect(humanizeTime(null, { start, maxUnit: 'mo', emptyValue: '—' })).toBe('—');
+    expect(() => humanizeTime(4e6, { start, maxUnit: 'x' })).toThrow('The maxUnit "x" is not part of the unit table.');
+  });
+});
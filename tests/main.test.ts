@@ -2,9 +2,14 @@ import { describe, expect, expectTypeOf, it } from 'vitest';
 
 import {
   Binary,
+  Celsius,
   Count,
+  Kelvin,
   SI,
+  SIExtended,
   Time,
+  createHumanizer,
+  createSIPrefixes,
   humanizeAcceleration,
   humanizeAngle,
   humanizeArea,
@@ -49,6 +54,7 @@ import {
   humanizeTime,
   humanizeTorque,
   humanizeUnit,
+  humanizeUnitToParts,
   humanizeVelocity,
   humanizeVoltage,
   humanizeVolume,
@@ -231,7 +237,7 @@ describe('humanizeUnit edge cases', () => {
 
 describe('humanizeUnit typing', () => {
   it('exposes the expected runtime signature', () => {
-    expectTypeOf(humanizeUnit).parameter(0).toMatchTypeOf<number | null | undefined>();
+    expectTypeOf(humanizeUnit).parameter(0).toMatchTypeOf<number | bigint | string | null | undefined>();
     expectTypeOf(humanizeUnit).returns.toEqualTypeOf<string>();
   });
 
@@ -280,8 +286,8 @@ describe('helper wrappers', () => {
     { name: 'humanizeVelocity', helper: humanizeVelocity, options: { units: SI, postfix: 'm/s' }, value: 12_500 },
     { name: 'humanizeVolume', helper: humanizeVolume, options: { units: SI, postfix: 'm^3' }, value: 0.0034 },
     { name: 'humanizeLiquidVolume', helper: humanizeLiquidVolume, options: { units: SI, postfix: 'L' }, value: 2.5 },
-    { name: 'humanizeTemperature', helper: humanizeTemperature, options: { units: SI, postfix: '°C' }, value: 0.0012 },
-    { name: 'humanizeTemperatureKelvin', helper: humanizeTemperatureKelvin, options: { units: SI, postfix: '°K' }, value: 12 },
+    { name: 'humanizeTemperature', helper: humanizeTemperature, options: { units: Celsius }, value: 1_500 },
+    { name: 'humanizeTemperatureKelvin', helper: humanizeTemperatureKelvin, options: { units: Kelvin }, value: 0.012 },
     { name: 'humanizePressure', helper: humanizePressure, options: { units: SI, postfix: 'Pa' }, value: 101_325 },
     { name: 'humanizeForce', helper: humanizeForce, options: { units: SI, postfix: 'N' }, value: 12_000 },
     { name: 'humanizeTorque', helper: humanizeTorque, options: { units: SI, postfix: 'N*m' }, value: 450 },
@@ -354,3 +360,128 @@ describe('helper wrappers', () => {
     expect(humanizeBytes(1_500, sampleOptions)).toBe('1.5 kB');
   });
 });
+
+describe('createHumanizer', () => {
+  it('formats exactly like humanizeUnit', () => {
+    const options: HumanizeUnitOptions = { units: Time, unitSeparator: ' ', emptyValue: 'n/a' };
+    const humanizer = createHumanizer(options);
+    for (const value of [0, 0.0009, 42, -65, 86_400, null, Number.NaN, Number.POSITIVE_INFINITY]) {
+      expect(humanizer.format(value)).toBe(humanizeUnit(value, options));
+    }
+  });
+
+  it('exposes the resolved options', () => {
+    expect(createHumanizer({ postfix: 'B' }).options).toEqual({
+      units: SI,
+      postfix: 'B',
+      significantDigits: 3,
+      minimumSignificantDigits: 1,
+      roundingMode: 'halfExpand',
+      locale: 'en-US',
+      useGrouping: false,
+      groupingStyle: 'locale',
+      unitSeparator: '',
+      unitDisplay: 'narrow',
+      siSpacing: false,
+      emptyValue: '',
+    });
+  });
+
+  it('validates the unit table up front', () => {
+    expect(() => createHumanizer({ units: [] })).toThrow('humanizeUnit requires at least one unit definition.');
+    expect(() =>
+      createHumanizer({
+        units: [
+          { value: 1, unit: '' },
+          { value: 1_000, unit: 'k' },
+        ],
+      }),
+    ).toThrow('Unit "k" (1000) must not be larger than the preceding "".');
+  });
+
+  it('backs the helpers, including calls with options', () => {
+    expect(humanizeBytes(1_500, { unitSeparator: ' ' })).toBe('1.5 kB');
+    expect(humanizeBytes(1_500, { unitSeparator: ' ' })).toBe('1.5 kB');
+    expect(humanizeBytes(1_500, { unitSeparator: '|' })).toBe('1.5|kB');
+  });
+});
+
+describe('humanizeUnitToParts', () => {
+  const join = ({ parts }: { parts: Array<{ value: string }> }) => parts.map((part) => part.value).join('');
+
+  it('returns typed parts and metadata', () => {
+    expect(humanizeUnitToParts(-12_345_678, { postfix: 'B', unitSeparator: ' ' })).toEqual({
+      parts: [
+        { type: 'sign', value: '-' },
+        { type: 'integer', value: '12' },
+        { type: 'decimal', value: '.' },
+        { type: 'fraction', value: '3' },
+        { type: 'separator', value: ' ' },
+        { type: 'prefix', value: 'M' },
+        { type: 'postfix', value: 'B' },
+      ],
+      unit: { value: 1_000_000, unit: 'M', name: 'mega' },
+      scaledValue: -12.345_678,
+      value: -12_345_678,
+    });
+  });
+
+  it('reports grouping separators', () => {
+    const { parts } = humanizeUnitToParts(12_345, { units: [{ value: 1, unit: '' }], significantDigits: 5, useGrouping: true });
+    expect(parts).toEqual([
+      { type: 'integer', value: '12' },
+      { type: 'group', value: ',' },
+      { type: 'integer', value: '345' },
+    ]);
+  });
+
+  it('handles empty and non-finite input', () => {
+    expect(humanizeUnitToParts(null)).toEqual({ parts: [], unit: undefined, scaledValue: Number.NaN, value: null });
+    expect(humanizeUnitToParts(Number.NaN, { emptyValue: 'n/a' }).parts).toEqual([{ type: 'literal', value: 'n/a' }]);
+    expect(humanizeUnitToParts(Number.NEGATIVE_INFINITY).parts).toEqual([{ type: 'literal', value: '-Infinity' }]);
+  });
+
+  it('always joins back to the humanizeUnit output', () => {
+    const cases: Array<[number, HumanizeUnitOptions]> = [
+      [0, {}],
+      [8_388_608, { postfix: 'B' }],
+      [0.0009, { units: Time, unitSeparator: ' ' }],
+      [12_345_678, { locale: 'de-DE', useGrouping: true, significantDigits: 4 }],
+      [12, { units: [{ value: 1, unit: '' }], postfix: 'V', unitSeparator: ' ' }],
+    ];
+    for (const [value, options] of cases) {
+      expect(join(humanizeUnitToParts(value, options))).toBe(humanizeUnit(value, options));
+      expect(join(createHumanizer(options).formatToParts(value))).toBe(humanizeUnit(value, options));
+    }
+  });
+});
+
+describe('SI prefix tables', () => {
+  it('covers quecto to quetta', () => {
+    expect(SI[0]).toEqual({ unit: 'Q', name: 'quetta', value: 1e30 });
+    expect(SI[SI.length - 1]).toEqual({ unit: 'q', name: 'quecto', value: 1e-30 });
+    expect(humanizeCapacitance(1e-15)).toBe('1fF');
+    expect(humanizeUnit(1e27)).toBe('1R');
+    expect(humanizeUnit(2.5e-29)).toBe('25q');
+  });
+
+  it('supports the micro symbol variants', () => {
+    expect(humanizeUnit(0.000_002_2, { postfix: 'F' })).toBe('2.2uF');
+    expect(humanizeUnit(0.000_002_2, { units: createSIPrefixes({ microSymbol: 'µ' }), postfix: 'F' })).toBe('2.2µF');
+    expect(humanizeCapacitance(0.000_002_2, { prefixes: { microSymbol: 'μ' } })).toBe('2.2μF');
+  });
+
+  it('offers opt-in centi, deci, deca and hecto prefixes', () => {
+    expect(SIExtended.map((unit) => unit.unit)).toContain('da');
+    expect(humanizeUnit(0.05, { units: SIExtended, postfix: 'm' })).toBe('5cm');
+    expect(humanizeLength(0.05, { prefixes: { include: ['centi'] } })).toBe('5cm');
+    expect(humanizeLiquidVolume(0.5, { prefixes: { include: ['deci'] }, unitSeparator: ' ' })).toBe('5 dL');
+    expect(humanizePressure(1_013, { prefixes: { include: ['hecto'] } })).toBe('1.01kPa');
+    expect(humanizePressure(500, { prefixes: { include: ['hecto'] } })).toBe('5hPa');
+  });
+
+  it('caches tables per option set', () => {
+    expect(createSIPrefixes()).toBe(SI);
+    expect(createSIPrefixes({ include: ['centi', 'deci', 'deca', 'hecto'] })).toBe(SIExtended);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  createHumanizer,
+  createSIPrefixes,
+  humanizeAcceleration,
+  humanizeAngle,
+  humanizeDensity,
+  humanizePercent,
+  humanizeRate,
+  humanizeTemperature,
+  humanizeTime,
+  humanizeTorque,
+  humanizeUnit,
+  humanizeUnitRange,
+  humanizeUnitToParts,
+} from '../src/index.js';
+
+describe('outputStyle', () => {
+  it('keeps units as defined when unset', () => {
+    expect(humanizeAcceleration(9.81)).toBe('9.81m/s^2');
+    expect(humanizeTime(0.000_001_5)).toBe('1.5µs');
+  });
+
+  it('writes ASCII notation', () => {
+    expect(humanizeTime(0.000_001_5, { outputStyle: 'ascii' })).toBe('1.5us');
+    expect(humanizeUnit(2, { postfix: 'N·m²', outputStyle: 'ascii' })).toBe('2N*m^2');
+  });
+
+  it('writes Unicode superscripts, middle dots and micro signs', () => {
+    expect(humanizeAcceleration(9.81, { outputStyle: 'unicode' })).toBe('9.81m/s²');
+    expect(humanizeDensity(1.2, { outputStyle: 'unicode' })).toBe('1.2kg/m³');
+    expect(humanizeTorque(0.000_012, { outputStyle: 'unicode' })).toBe('12µN·m');
+    expect(humanizeUnit(3, { postfix: 'm^-1', outputStyle: 'unicode' })).toBe('3m⁻¹');
+    expect(humanizeUnit(0.000_003, { units: createSIPrefixes({ microSymbol: 'μ' }), outputStyle: 'unicode' })).toBe('3µ');
+  });
+
+  it('renders the micro prefix in every unit display', () => {
+    expect(humanizeUnit(1e-6, { postfix: 's', outputStyle: 'unicode', unitDisplay: 'short' })).toBe('1 µs');
+    expect(humanizeUnit(1e-6, { postfix: 's', outputStyle: 'unicode', unitDisplay: 'long' })).toBe('1 µs');
+    expect(humanizeUnit(1e-6, { postfix: 's', outputStyle: 'latex', unitDisplay: 'short' })).toBe('1\\ \\mathrm{{\\mu}s}');
+    expect(humanizeTime(1e-6, { outputStyle: 'ascii', unitDisplay: 'short' })).toBe('1 us');
+  });
+
+  it('writes escaped HTML', () => {
+    expect(humanizeAcceleration(9.81, { outputStyle: 'html' })).toBe('9.81m/s<sup>2</sup>');
+    expect(humanizeUnit(3, { postfix: 'm^-1', outputStyle: 'html' })).toBe('3m<sup>−1</sup>');
+    expect(humanizeUnit(1_500, { postfix: '<b>"&\'', unitSeparator: '<', outputStyle: 'html' })).toBe(
+      '1.5&lt;k&lt;b&gt;&quot;&amp;&#39;',
+    );
+    expect(humanizeUnit(null, { emptyValue: '&mdash;', outputStyle: 'html' })).toBe('&mdash;');
+  });
+
+  it('writes math-mode LaTeX', () => {
+    expect(humanizeAcceleration(9.81, { outputStyle: 'latex' })).toBe('9.81\\mathrm{m/s^{2}}');
+    expect(humanizeTorque(0.000_012, { outputStyle: 'latex', unitSeparator: ' ' })).toBe('12\\ \\mathrm{{\\mu}N{\\cdot}m}');
+    expect(humanizePercent(0.125, { outputStyle: 'latex' })).toBe('12.5\\mathrm{\\%}');
+    expect(
+      humanizeUnit(-1_234_567, { units: [{ unit: '', value: 1 }], useGrouping: true, signDisplay: 'auto', outputStyle: 'latex' }),
+    ).toBe('-1{,}230{,}000');
+    expect(humanizeUnit(1.5, { locale: 'de-DE', postfix: 'm_x', outputStyle: 'latex' })).toBe('1{,}5\\mathrm{m\\_x}');
+  });
+
+  it('styles parts, ranges and rates', () => {
+    expect(humanizeUnitToParts(9.81, { postfix: 'm/s^2', unitSeparator: ' ', outputStyle: 'latex' }).parts).toEqual([
+      { type: 'integer', value: '9' },
+      { type: 'decimal', value: '.' },
+      { type: 'fraction', value: '81' },
+      { type: 'separator', value: '\\ ' },
+      { type: 'literal', value: '\\mathrm{' },
+      { type: 'postfix', value: 'm/s^{2}' },
+      { type: 'literal', value: '}' },
+    ]);
+    expect(humanizeUnitRange(2, 5, { postfix: 'm^2', outputStyle: 'unicode' })).toBe('2–5m²');
+    expect(humanizeRate(5, { postfix: 'm^3', outputStyle: 'html' })).toBe('5m<sup>3</sup>/s');
+    const humanizer = createHumanizer({ postfix: 'm^2', outputStyle: 'html' });
+    expect(humanizer.format(2_000)).toBe(humanizeUnit(2_000, { postfix: 'm^2', outputStyle: 'html' }));
+  });
+});
+
+describe('siSpacing', () => {
+  it('puts a no-break space before the unit', () => {
+    expect(humanizeAcceleration(9.81, { siSpacing: true })).toBe('9.81 m/s^2');
+    expect(humanizeUnit(1_500, { siSpacing: true, unitSeparator: '' })).toBe('1.5 k');
+    expect(humanizePercent(0.25, { siSpacing: true })).toBe('25 %');
+    expect(humanizeTemperature(21, { siSpacing: true })).toBe('21 °C');
+  });
+
+  it('keeps plane angles and unitless values unspaced', () => {
+    expect(humanizeAngle(30, { siSpacing: true })).toBe('30°');
+    expect(humanizeUnit(15, { siSpacing: true })).toBe('15');
+  });
+
+  it('renders the space for the output style', () => {
+    expect(humanizeAcceleration(9.81, { siSpacing: true, outputStyle: 'latex' })).toBe('9.81~\\mathrm{m/s^{2}}');
+    expect(humanizeAcceleration(9.81, { siSpacing: true, outputStyle: 'unicode' })).toBe('9.81 m/s²');
+  });
+});
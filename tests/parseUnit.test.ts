@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  Binary,
+  SI,
+  Time,
+  humanizeBytes,
+  humanizeBytesBinary,
+  humanizeTime,
+  parseBytes,
+  parseBytesBinary,
+  parseCapacitance,
+  parseDistance,
+  parseLength,
+  parseTime,
+  parseUnit,
+  type ParseUnitResult,
+} from '../src/index.js';
+
+const valueOf = (result: ParseUnitResult) => (result.ok ? result.value : result.error.code);
+
+describe('parseUnit', () => {
+  it('parses values with unit prefixes and postfixes', () => {
+    expect(valueOf(parseUnit('8.39MB', { units: SI, postfix: 'B' }))).toBe(8_390_000);
+    expect(valueOf(parseUnit('1.5 kB', { units: SI, postfix: 'B' }))).toBe(1_500);
+    expect(valueOf(parseUnit('500MiB', { units: Binary, postfix: 'B' }))).toBe(524_288_000);
+    expect(valueOf(parseUnit('250ms', { units: Time }))).toBe(0.25);
+    expect(valueOf(parseUnit('2h', { units: Time }))).toBe(7_200);
+  });
+
+  it('accepts a missing postfix and bare numbers', () => {
+    expect(valueOf(parseUnit('500Mi', { units: Binary, postfix: 'B' }))).toBe(524_288_000);
+    expect(valueOf(parseUnit('1024', { units: Binary, postfix: 'B' }))).toBe(1_024);
+    expect(valueOf(parseUnit('60', { units: Time }))).toBe(60);
+  });
+
+  it('prefers symbols that include the postfix', () => {
+    expect(valueOf(parseDistance('5m'))).toBe(5);
+    expect(valueOf(parseDistance('5mm'))).toBe(0.005);
+  });
+
+  it('understands locale separators and signs', () => {
+    expect(valueOf(parseUnit('1,234.5 kB', { postfix: 'B' }))).toBe(1_234_500);
+    expect(valueOf(parseUnit('1.234,5 kB', { postfix: 'B', locale: 'de-DE' }))).toBe(1_234_500);
+    expect(valueOf(parseUnit('1 234,5 kB', { postfix: 'B', locale: 'fr-FR' }))).toBe(1_234_500);
+    expect(valueOf(parseUnit('-1.5k'))).toBe(-1_500);
+    expect(valueOf(parseUnit('−1.5k'))).toBe(-1_500);
+    expect(valueOf(parseUnit('+2k'))).toBe(2_000);
+  });
+
+  it('rejects digit groups that do not match the locale', () => {
+    expect(valueOf(parseUnit('1,5 GB', { postfix: 'B' }))).toBe('invalid-grouping');
+    expect(valueOf(parseUnit('12,34 kB', { postfix: 'B' }))).toBe('invalid-grouping');
+    expect(valueOf(parseUnit('1,2345'))).toBe('invalid-grouping');
+    expect(valueOf(parseUnit('1234,567'))).toBe('invalid-grouping');
+    expect(valueOf(parseUnit('1.5,000', { locale: 'de-DE' }))).toBe('invalid-grouping');
+    expect(valueOf(parseUnit('1,234,567'))).toBe(1_234_567);
+    expect(valueOf(parseUnit('12,34,567', { locale: 'en-IN' }))).toBe(1_234_567);
+    expect(valueOf(parseUnit('1,234,567', { locale: 'en-IN' }))).toBe('invalid-grouping');
+    expect(valueOf(parseUnit('1,00k'))).toBe('invalid-grouping');
+    const result = parseUnit('1,00k');
+    expect(result.ok || result.error.message).toBe('"1,00k" groups its digits differently from the en-US locale.');
+  });
+
+  it('honours the unit separator', () => {
+    expect(valueOf(parseUnit('1.5|kB', { postfix: 'B', unitSeparator: '|' }))).toBe(1_500);
+  });
+
+  it('reports typed errors', () => {
+    expect(valueOf(parseUnit(undefined))).toBe('empty');
+    expect(valueOf(parseUnit('   '))).toBe('empty');
+    expect(valueOf(parseUnit('MB', { postfix: 'B' }))).toBe('invalid-number');
+    expect(valueOf(parseUnit('12 parsecs'))).toBe('unknown-unit');
+
+    const result = parseUnit('12 XB', { postfix: 'B' });
+    expect(result).toEqual({
+      ok: false,
+      error: { code: 'unknown-unit', message: '"XB" is not a recognised unit.', input: '12 XB' },
+    });
+  });
+
+  it('returns the matched unit', () => {
+    const result = parseUnit('3d', { units: Time });
+    expect(result.ok && result.unit).toEqual({ value: 86_400, unit: 'd', name: 'day' });
+  });
+});
+
+describe('parser helpers', () => {
+  it('accept every micro symbol and optional SI prefixes', () => {
+    expect(valueOf(parseCapacitance('2.5uF'))).toBe(2.5e-6);
+    expect(valueOf(parseCapacitance('2.5µF'))).toBe(2.5e-6);
+    expect(valueOf(parseCapacitance('2.5μF'))).toBe(2.5e-6);
+    expect(valueOf(parseTime('3us'))).toBeCloseTo(3e-6);
+    expect(valueOf(parseTime('3μs'))).toBeCloseTo(3e-6);
+    expect(valueOf(parseTime(humanizeTime(3e-6, { outputStyle: 'ascii' })))).toBeCloseTo(3e-6);
+    expect(valueOf(parseLength('5cm'))).toBe('unknown-unit');
+    expect(valueOf(parseLength('5cm', { prefixes: { include: ['centi'] } }))).toBe(0.05);
+  });
+
+  it('round-trip the matching humanize helpers', () => {
+    expect(valueOf(parseBytes(humanizeBytes(1_500)))).toBe(1_500);
+    expect(valueOf(parseBytesBinary(humanizeBytesBinary(1_048_576)))).toBe(1_048_576);
+    expect(valueOf(parseTime(humanizeTime(7_200)))).toBe(7_200);
+    expect(valueOf(parseTime(humanizeTime(0.25)))).toBe(0.25);
+  });
+
+  it('accept locale options', () => {
+    expect(valueOf(parseBytes('1,5 MB', { locale: 'de-DE' }))).toBe(1_500_000);
+  });
+});
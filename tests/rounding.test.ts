@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+
+import { Binary, humanizeBytes, humanizeTime, humanizeUnit, humanizeUnitToParts, Time } from '../src/index.js';
+
+describe('unit rollover', () => {
+  it('promotes values that round up to the next unit', () => {
+    expect(humanizeUnit(999_999)).toBe('1M');
+    expect(humanizeUnit(-999_999)).toBe('-1M');
+    expect(humanizeUnit(999_499)).toBe('999k');
+    expect(humanizeUnit(1_048_575, { units: Binary, postfix: 'B', significantDigits: 4 })).toBe('1MiB');
+    expect(humanizeUnit(3_599.9, { units: Time })).toBe('1h');
+    expect(humanizeTime(59.99)).toBe('1m');
+    expect(humanizeUnit(0.000_999_9)).toBe('1m');
+  });
+
+  it('reports the promoted unit in parts', () => {
+    const { unit, parts } = humanizeUnitToParts(999_999, { postfix: 'B' });
+    expect(unit?.unit).toBe('M');
+    expect(parts.map((part) => part.value).join('')).toBe('1MB');
+  });
+});
+
+describe('roundingMode', () => {
+  it('rounds displayed digits in the requested direction', () => {
+    expect(humanizeBytes(1_999_999_999, { roundingMode: 'floor' })).toBe('1.99GB');
+    expect(humanizeBytes(1_999_999_999)).toBe('2GB');
+    expect(humanizeBytes(1_001_000_000, { roundingMode: 'ceil' })).toBe('1.01GB');
+    expect(humanizeBytes(-1_999_000, { roundingMode: 'trunc' })).toBe('-1.99MB');
+    expect(humanizeBytes(-1_999_000, { roundingMode: 'floor' })).toBe('-2MB');
+  });
+
+  it('distinguishes halfExpand from halfEven', () => {
+    expect(humanizeUnit(1_225, { roundingMode: 'halfExpand' })).toBe('1.23k');
+    expect(humanizeUnit(1_225, { roundingMode: 'halfEven' })).toBe('1.22k');
+    expect(humanizeUnit(1_235, { roundingMode: 'halfEven' })).toBe('1.24k');
+  });
+
+  it('never promotes when rounding down', () => {
+    expect(humanizeUnit(999_999, { roundingMode: 'floor' })).toBe('999k');
+    expect(humanizeUnit(1.99, { roundingMode: 'floor' })).toBe('1.99');
+  });
+
+  it('applies to fixed fraction digits', () => {
+    expect(humanizeBytes(1_999_999, { fractionDigits: 2 })).toBe('2.00MB');
+    expect(humanizeBytes(1_999_999, { fractionDigits: 2, roundingMode: 'floor' })).toBe('1.99MB');
+    expect(humanizeBytes(999_999, { fractionDigits: 1 })).toBe('1.0MB');
+  });
+});
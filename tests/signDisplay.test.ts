@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  createHumanizer,
+  humanizeBasisPoints,
+  humanizeBytes,
+  humanizeDelta,
+  humanizePercent,
+  humanizePermille,
+  humanizeRatio,
+  humanizeUnit,
+  humanizeUnitRange,
+  humanizeUnitToParts,
+  parseBasisPoints,
+  parsePercent,
+} from '../src/index.js';
+
+describe('signDisplay', () => {
+  it('keeps the locale sign when unset', () => {
+    expect(humanizeUnit(-1_500)).toBe('-1.5k');
+  });
+
+  it('writes the requested signs with a proper minus sign', () => {
+    expect(humanizeUnit(-1_500, { signDisplay: 'auto' })).toBe('−1.5k');
+    expect(humanizeUnit(1_500, { signDisplay: 'always' })).toBe('+1.5k');
+    expect(humanizeUnit(0, { signDisplay: 'always' })).toBe('+0');
+    expect(humanizeUnit(-0, { signDisplay: 'always' })).toBe('+0');
+    expect(humanizeUnit(-0.1, { units: [{ value: 1, unit: '' }], fractionDigits: 0, signDisplay: 'always' })).toBe('+0');
+    expect(humanizeUnit(0, { signDisplay: 'exceptZero' })).toBe('0');
+    expect(humanizeUnit(1_200, { signDisplay: 'exceptZero', unitSeparator: ' ', postfix: ' requests' })).toBe(
+      '+1.2 k requests',
+    );
+    expect(humanizeBytes(-350_000_000, { signDisplay: 'exceptZero', unitSeparator: ' ' })).toBe('−350 MB');
+    expect(humanizeUnit(-0.1, { units: [{ value: 1, unit: '' }], fractionDigits: 0, signDisplay: 'negative' })).toBe('0');
+    expect(humanizeUnit(-0, { signDisplay: 'negative' })).toBe('0');
+    expect(humanizeUnit(-1_500, { signDisplay: 'negative' })).toBe('−1.5k');
+    expect(humanizeUnitRange(-0.01, 2, { units: [{ value: 1, unit: '' }], fractionDigits: 0, signDisplay: 'negative' })).toBe(
+      '0–2',
+    );
+  });
+
+  it('applies to parts and ranges', () => {
+    const { parts } = humanizeUnitToParts(-2_000, { signDisplay: 'auto' });
+    expect(parts[0]).toEqual({ type: 'sign', value: '−' });
+    expect(humanizeUnitRange(-2_000, 3_000, { signDisplay: 'exceptZero' })).toBe('−2 – +3k');
+    expect(createHumanizer({ signDisplay: 'auto' }).formatRange(-3_000, -2_000)).toBe('−3 – −2k');
+  });
+});
+
+describe('ratio helpers', () => {
+  it('formats percentages, per mille and basis points', () => {
+    expect(humanizePercent(0.125)).toBe('12.5%');
+    expect(humanizePercent(0.123_456)).toBe('12.3%');
+    expect(humanizePercent(2)).toBe('200%');
+    expect(humanizePermille(0.012_5)).toBe('12.5‰');
+    expect(humanizeBasisPoints(0.002_5)).toBe('25bp');
+    expect(humanizeBasisPoints(0.000_1, { unitDisplay: 'long' })).toBe('1 basis point');
+    expect(humanizePercent(0.5, { unitDisplay: 'long' })).toBe('50 percent');
+  });
+
+  it('follows the significant-digit options', () => {
+    expect(humanizePercent(0.123_456, { significantDigits: 2 })).toBe('12%');
+    expect(humanizePercent(0.125, { fractionDigits: 2 })).toBe('12.50%');
+    expect(humanizePercent(0.125, { signDisplay: 'always' })).toBe('+12.5%');
+  });
+
+  it('selects the unit with humanizeRatio', () => {
+    expect(humanizeRatio(0.125)).toBe('12.5%');
+    expect(humanizeRatio(0.012_5, { ratioUnit: 'permille' })).toBe('12.5‰');
+    expect(humanizeRatio(0.002_5, { ratioUnit: 'basisPoint' })).toBe('25bp');
+  });
+
+  it('parses back into ratios', () => {
+    expect(parsePercent('12.5%')).toMatchObject({ ok: true, value: 0.125 });
+    expect(parseBasisPoints('25bp')).toMatchObject({ ok: true, value: 0.002_5 });
+  });
+});
+
+describe('humanizeDelta', () => {
+  it('formats the absolute and relative change', () => {
+    expect(humanizeDelta(10_800, 9_600)).toEqual({ absolute: '+1.2k', relative: '+12.5%', change: 1_200, ratio: 0.125 });
+    expect(humanizeDelta(850_000_000, 1_200_000_000, { postfix: 'B', unitSeparator: ' ' })).toMatchObject({
+      absolute: '−350 MB',
+      relative: '−29.2%',
+    });
+    expect(humanizeDelta(5, 5)).toMatchObject({ absolute: '0', relative: '0%' });
+  });
+
+  it('measures the relative change against the magnitude of previous', () => {
+    expect(humanizeDelta(-5, -10).relative).toBe('+50%');
+  });
+
+  it('honours signDisplay and the digit options', () => {
+    expect(humanizeDelta(10_800, 9_600, { signDisplay: 'auto', significantDigits: 2 })).toMatchObject({
+      absolute: '1.2k',
+      relative: '13%',
+    });
+  });
+
+  it('returns emptyValue when a change cannot be computed', () => {
+    expect(humanizeDelta(5, 0, { emptyValue: '—' })).toMatchObject({ absolute: '+5', relative: '—' });
+    expect(humanizeDelta(null, 5, { emptyValue: '—' })).toMatchObject({ absolute: '—', relative: '—' });
+    expect(humanizeDelta(5, undefined).change).toBeNaN();
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  convertTemperature,
+  humanizeTemperature,
+  humanizeTemperatureFahrenheit,
+  humanizeTemperatureKelvin,
+  parseTemperature,
+  parseTemperatureKelvin,
+} from '../src/index.js';
+
+describe('convertTemperature', () => {
+  it('converts absolute temperatures with offsets', () => {
+    expect(convertTemperature(10, 'C', 'F')).toBeCloseTo(50);
+    expect(convertTemperature(0, 'C', 'K')).toBeCloseTo(273.15);
+    expect(convertTemperature(-40, 'F', 'C')).toBeCloseTo(-40);
+    expect(convertTemperature(0, 'K', 'R')).toBe(0);
+    expect(convertTemperature(491.67, 'R', 'C')).toBeCloseTo(0);
+  });
+
+  it('converts differences without offsets', () => {
+    expect(convertTemperature(10, 'K', 'F', true)).toBeCloseTo(18);
+    expect(convertTemperature(10, 'C', 'K', true)).toBe(10);
+    expect(convertTemperature(9, 'R', 'C', true)).toBeCloseTo(5);
+  });
+});
+
+describe('temperature helpers', () => {
+  it('never applies SI prefixes', () => {
+    expect(humanizeTemperature(1_500)).toBe('1500°C');
+    expect(humanizeTemperature(0.0012)).toBe('0.0012°C');
+    expect(humanizeTemperatureKelvin(12)).toBe('12K');
+  });
+
+  it('converts to the requested scale', () => {
+    expect(humanizeTemperature(10, { scale: 'F' })).toBe('50°F');
+    expect(humanizeTemperature(20, { scale: 'K' })).toBe('293K');
+    expect(humanizeTemperature(100, { scale: 'R' })).toBe('672°R');
+    expect(humanizeTemperatureKelvin(0, { scale: 'C' })).toBe('-273°C');
+    expect(humanizeTemperatureFahrenheit(212)).toBe('212°F');
+    expect(humanizeTemperatureFahrenheit(212, { unitSystem: 'metric' })).toBe('100°C');
+  });
+
+  it('formats differences', () => {
+    expect(humanizeTemperatureKelvin(10, { scale: 'F', difference: true })).toBe('18°F');
+    expect(humanizeTemperatureKelvin(10, { scale: 'F' })).toBe('-442°F');
+  });
+
+  it('supports long names and empty values', () => {
+    expect(humanizeTemperature(1, { unitDisplay: 'long' })).toBe('1 degree Celsius');
+    expect(humanizeTemperatureKelvin(300, { unitDisplay: 'long' })).toBe('300 kelvins');
+    expect(humanizeTemperature(null, { scale: 'F', emptyValue: '-' })).toBe('-');
+  });
+
+  it('parses temperatures and the deprecated kelvin symbol', () => {
+    expect(parseTemperature('21.5°C')).toMatchObject({ ok: true, value: 21.5 });
+    expect(parseTemperatureKelvin('12 K')).toMatchObject({ ok: true, value: 12 });
+    expect(parseTemperatureKelvin('12°K')).toMatchObject({ ok: true, value: 12 });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  Binary,
+  createHumanizer,
+  humanizeAxisTicks,
+  humanizeBytes,
+  humanizeBytesRange,
+  humanizeRate,
+  humanizeSeries,
+  humanizeTime,
+  humanizeUnit,
+  restrictUnits,
+  SI,
+  Time,
+} from '../src/index.js';
+
+describe('minUnit', () => {
+  it('shows smaller values in the smallest allowed unit', () => {
+    expect(humanizeTime(0.000_5)).toBe('500µs');
+    expect(humanizeTime(0.000_5, { minUnit: 'ms' })).toBe('0.5ms');
+    expect(humanizeTime(0.000_000_2, { minUnit: 'ms' })).toBe('0.0002ms');
+    expect(humanizeTime(90, { minUnit: 'ms' })).toBe('1.5m');
+  });
+
+  it('accepts the base unit of prefix tables', () => {
+    expect(humanizeUnit(0.002, { minUnit: '' })).toBe('0.002');
+    expect(humanizeBytes(0.5, { minUnit: 'B' })).toBe('0.5B');
+  });
+});
+
+describe('maxUnit', () => {
+  it('shows larger values in the largest allowed unit with grouping', () => {
+    expect(humanizeBytes(1.2e15, { maxUnit: 'TB' })).toBe('1,200TB');
+    expect(humanizeBytes(1.2e15, { maxUnit: 'T' })).toBe('1,200TB');
+    expect(humanizeBytes(1.2e12, { maxUnit: 'TB' })).toBe('1.2TB');
+    expect(humanizeBytes(1.2345e15, { maxUnit: 'TB', significantDigits: 5 })).toBe('1,234.5TB');
+    expect(humanizeBytes(1.2e15, { maxUnit: 'TB', useGrouping: false })).toBe('1200TB');
+    expect(humanizeBytes(1.2e15, { maxUnit: 'TB', locale: 'de-DE' })).toBe('1.200TB');
+    expect(humanizeTime(86_400 * 3, { maxUnit: 'h' })).toBe('72h');
+  });
+
+  it('does not promote past the largest allowed unit', () => {
+    expect(humanizeUnit(999_999, { maxUnit: 'k' })).toBe('1,000k');
+  });
+});
+
+describe('excludeUnits', () => {
+  it('skips the excluded units', () => {
+    expect(humanizeTime(86_400 * 14)).toBe('2w');
+    expect(humanizeTime(86_400 * 14, { excludeUnits: ['w'] })).toBe('14d');
+    expect(humanizeUnit(5e-8, { excludeUnits: ['n'] })).toBe('50000p');
+  });
+
+  it('combines with the bounds', () => {
+    expect(humanizeTime(86_400 * 400, { maxUnit: 'w', excludeUnits: ['w'] })).toBe('400d');
+  });
+});
+
+describe('restrictUnits', () => {
+  it('returns the restricted table and caches it', () => {
+    const units = restrictUnits(Binary, { minUnit: 'Ki', maxUnit: 'Gi' });
+    expect(units.map((unit) => unit.unit)).toEqual(['Gi', 'Mi', 'Ki']);
+    expect(restrictUnits(Binary, { minUnit: 'Ki', maxUnit: 'Gi' })).toBe(units);
+    expect(restrictUnits(SI, {})).toBe(SI);
+  });
+
+  it('rejects unknown symbols and inverted bounds', () => {
+    expect(() => humanizeUnit(1, { minUnit: 'x' })).toThrow('The minUnit "x" is not part of the unit table.');
+    expect(() => humanizeTime(1, { excludeUnits: ['fortnight'] })).toThrow(
+      'The excluded unit "fortnight" is not part of the unit table.',
+    );
+    expect(() => restrictUnits(Time, { minUnit: 'h', maxUnit: 's' })).toThrow(
+      'The minUnit "h" is larger than the maxUnit "s".',
+    );
+    expect(() => humanizeUnit(1, { units: Time, minUnit: 'w', maxUnit: 'w', excludeUnits: ['w'] })).toThrow(
+      'humanizeUnit requires at least one unit definition.',
+    );
+  });
+});
+
+describe('clamping in other formatters', () => {
+  it('applies to humanizers, ranges, series and rates', () => {
+    expect(createHumanizer({ units: Time, maxUnit: 'h' }).options.units.map((unit) => unit.unit)[0]).toBe('h');
+    expect(humanizeBytesRange(2e15, 3e15, { maxUnit: 'TB' })).toBe('2,000–3,000TB');
+    expect(humanizeSeries([1e15, 2e15], { postfix: 'B', maxUnit: 'TB' })).toEqual(['1,000TB', '2,000TB']);
+    expect(humanizeAxisTicks(0, 2e6, { maxUnit: 'k', tickCount: 3 }).labels).toEqual(['0k', '1,000k', '2,000k']);
+    expect(humanizeRate(5e9, { postfix: 'B', maxUnit: 'MB' })).toBe('5,000MB/s');
+  });
+});
@@ -0,0 +1,105 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+
+import {
+  Binary,
+  humanizeBytes,
+  humanizeDistance,
+  humanizePercent,
+  humanizeTime,
+  humanizeUnit,
+  humanizeUnitToParts,
+  registerUnitLocale,
+  unitLocaleDe,
+  unitLocaleFr,
+  unitLocaleJa,
+  type UnitArray,
+} from '../src/index.js';
+
+describe('unitDisplay', () => {
+  beforeAll(() => {
+    registerUnitLocale(unitLocaleDe);
+    registerUnitLocale(unitLocaleFr);
+    registerUnitLocale(unitLocaleJa);
+  });
+
+  it('keeps narrow display as the default', () => {
+    expect(humanizeBytes(8_388_608)).toBe('8.39MB');
+    expect(humanizeBytes(8_388_608, { unitDisplay: 'narrow' })).toBe('8.39MB');
+  });
+
+  it('renders pluralized English names', () => {
+    expect(humanizeBytes(8_388_608, { unitDisplay: 'long' })).toBe('8.39 megabytes');
+    expect(humanizeBytes(1, { unitDisplay: 'long' })).toBe('1 byte');
+    expect(humanizeTime(3_600, { unitDisplay: 'long' })).toBe('1 hour');
+    expect(humanizeTime(3_600, { unitDisplay: 'long', minimumSignificantDigits: 2 })).toBe('1.0 hours');
+    expect(humanizeTime(5_400, { unitDisplay: 'long' })).toBe('1.5 hours');
+    expect(humanizeUnit(1_048_576, { units: Binary, postfix: 'B', postfixName: 'byte', unitDisplay: 'long' })).toBe(
+      '1 mebibyte',
+    );
+    expect(humanizeDistance(12_500, { unitDisplay: 'long' })).toBe('12.5 kilometers');
+  });
+
+  it('renders localized symbols for short display', () => {
+    expect(humanizeBytes(8_388_608, { unitDisplay: 'short' })).toBe('8.39 MB');
+    expect(humanizeTime(180, { unitDisplay: 'short' })).toBe('3 min');
+    expect(humanizeBytes(8_388_608, { unitDisplay: 'short', locale: 'fr-FR' })).toBe('8,39\u202fMo');
+    expect(humanizeTime(10_800, { unitDisplay: 'short', locale: 'de-DE' })).toBe('3 Std.');
+  });
+
+  it('renders German, French and Japanese names', () => {
+    expect(humanizeTime(10_800, { unitDisplay: 'long', locale: 'de-DE' })).toBe('3 Stunden');
+    expect(humanizeBytes(8_388_608, { unitDisplay: 'long', locale: 'de-DE' })).toBe('8,39 Megabyte');
+    expect(humanizeDistance(1_000, { unitDisplay: 'long', locale: 'de-DE' })).toBe('1 Kilometer');
+    expect(humanizeBytes(8_388_608, { unitDisplay: 'long', locale: 'fr-FR' })).toBe('8,39\u00a0mégaoctets');
+    expect(humanizeTime(5_400, { unitDisplay: 'long', locale: 'fr-FR' })).toBe('1,5\u00a0heure');
+    expect(humanizeBytes(8_388_608, { unitDisplay: 'long', locale: 'ja-JP' })).toBe('8.39 メガバイト');
+    expect(humanizeTime(10_800, { unitDisplay: 'long', locale: 'ja-JP' })).toBe('3 時間');
+  });
+
+  it('takes names of units such as percent from Intl when no pack has them', () => {
+    expect(humanizePercent(0.125, { unitDisplay: 'long', locale: 'fr' })).toBe('12,5\u00a0pour cent');
+    expect(humanizePercent(0.01, { unitDisplay: 'long', locale: 'de' })).toBe('1 Prozent');
+    expect(humanizeTime(3_600, { unitDisplay: 'long', locale: 'es' })).toBe('1 hora');
+  });
+
+  it('falls back to symbols when no names are known', () => {
+    expect(humanizeBytes(8_388_608, { unitDisplay: 'long', locale: 'pt-BR' })).toBe('8,39 MB');
+    expect(humanizeUnit(1_500, { postfix: 'W', unitDisplay: 'long' })).toBe('1.5 kW');
+    expect(humanizeUnit(12_345, { unitDisplay: 'long' })).toBe('12.3 k');
+  });
+
+  it('uses inline names from custom tables and postfixes', () => {
+    const Furlongs: UnitArray = [{ value: 201.168, unit: 'fur', longNames: { one: 'furlong', other: 'furlongs' } }];
+    expect(humanizeUnit(402.336, { units: Furlongs, unitDisplay: 'long' })).toBe('2 furlongs');
+    expect(
+      humanizeUnit(2_000, { postfix: 'cd', postfixName: { one: 'candela', other: 'candelas' }, unitDisplay: 'long' }),
+    ).toBe('2 kilocandelas');
+  });
+
+  it('honours an explicit unit separator', () => {
+    expect(humanizeBytes(8_388_608, { unitDisplay: 'long', unitSeparator: '_' })).toBe('8.39_megabytes');
+  });
+
+  it('reports long names as a single unit part', () => {
+    const { parts } = humanizeUnitToParts(8_388_608, { postfix: 'B', postfixName: 'byte', unitDisplay: 'long' });
+    expect(parts.slice(-2)).toEqual([
+      { type: 'separator', value: ' ' },
+      { type: 'unit', value: 'megabytes' },
+    ]);
+  });
+});
+
+describe('registerUnitLocale', () => {
+  it('applies to helpers that already formatted with the locale', () => {
+    const options = { unitDisplay: 'long', locale: 'pt-BR' } as const;
+    expect(humanizeBytes(8_388_608, options)).toBe('8,39 MB');
+
+    registerUnitLocale({
+      locale: 'pt',
+      prefixes: { mega: 'mega' },
+      units: { byte: { one: 'byte', other: 'bytes' } },
+      longSeparator: ' ',
+    });
+    expect(humanizeBytes(8_388_608, options)).toBe('8,39 megabytes');
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  humanizeDistance,
+  humanizeLiquidVolume,
+  humanizeMass,
+  humanizeTemperature,
+  humanizeVelocity,
+  humanizeVelocityKnots,
+  humanizeVolume,
+} from '../src/index.js';
+
+describe('unitSystem', () => {
+  it('keeps metric output by default', () => {
+    expect(humanizeDistance(5150)).toBe('5.15km');
+    expect(humanizeDistance(5150, { unitSystem: 'metric' })).toBe('5.15km');
+  });
+
+  it('converts SI input to US customary units', () => {
+    expect(humanizeDistance(5150, { unitSystem: 'us' })).toBe('3.2mi');
+    expect(humanizeDistance(0.3048, { unitSystem: 'us' })).toBe('1ft');
+    expect(humanizeMass(5570, { unitSystem: 'us' })).toBe('12.3lb');
+    expect(humanizeMass(2_000_000, { unitSystem: 'us' })).toBe('2.2ton');
+    expect(humanizeVelocity(29.0576, { unitSystem: 'us' })).toBe('65mph');
+    expect(humanizeLiquidVolume(7.95, { unitSystem: 'us' })).toBe('2.1gal');
+    expect(humanizeLiquidVolume(0.25, { unitSystem: 'us' })).toBe('1.06cup');
+    expect(humanizeVolume(0.00795, { unitSystem: 'us' })).toBe('2.1gal');
+  });
+
+  it('distinguishes imperial from US units', () => {
+    expect(humanizeLiquidVolume(4.54609, { unitSystem: 'imperial' })).toBe('1gal');
+    expect(humanizeLiquidVolume(0.25, { unitSystem: 'imperial' })).toBe('8.8fl oz');
+    expect(humanizeMass(80_000, { unitSystem: 'imperial' })).toBe('12.6st');
+  });
+
+  it('converts temperatures to Fahrenheit', () => {
+    expect(humanizeTemperature(37, { unitSystem: 'us' })).toBe('98.6°F');
+    expect(humanizeTemperature(-40, { unitSystem: 'imperial' })).toBe('-40°F');
+  });
+
+  it('formats knots', () => {
+    expect(humanizeVelocityKnots(10)).toBe('19.4kn');
+  });
+
+  it('produces compound output where customary', () => {
+    expect(humanizeDistance(1.8034, { unitSystem: 'us', compound: true, unitSeparator: ' ' })).toBe('5 ft 11 in');
+    expect(humanizeMass(5556.5, { unitSystem: 'us', compound: true, unitSeparator: ' ' })).toBe('12 lb 4 oz');
+    expect(humanizeMass(80_000, { unitSystem: 'imperial', compound: true })).toBe('12st 8lb');
+    expect(humanizeDistance(-1.8034, { unitSystem: 'us', compound: true })).toBe('-5ft 11in');
+    // Beyond a mile the single largest unit reads better.
+    expect(humanizeDistance(5150, { unitSystem: 'us', compound: true })).toBe('3.2mi');
+    // Long lengths and heavy masses keep the single best unit rather than thousands of feet.
+    expect(humanizeDistance(1609, { unitSystem: 'us', compound: true })).toBe('1mi');
+    expect(humanizeDistance(5, { unitSystem: 'us', compound: true })).toBe('5.47yd');
+    expect(humanizeMass(50_000, { unitSystem: 'us', compound: true })).toBe('110lb');
+  });
+
+  it('applies long names and empty values to customary output', () => {
+    expect(humanizeDistance(1.8034, { unitSystem: 'us', unitDisplay: 'long' })).toBe('1.97 yards');
+    expect(humanizeDistance(null, { unitSystem: 'us', compound: true, emptyValue: '-' })).toBe('-');
+  });
+});